@@ -1,6 +1,8 @@
+import { useState } from 'react';
 import {
   Box,
   Autocomplete,
+  createFilterOptions,
   TextField,
   Typography,
   Select,
@@ -9,10 +11,13 @@ import {
   InputLabel,
   Alert,
   Link,
+  ListItemIcon,
 } from '@mui/material';
-import { LockOutlined as LockOutlinedIcon } from '@mui/icons-material';
+import { Add as AddIcon, LockOutlined as LockOutlinedIcon } from '@mui/icons-material';
 import { useTranslation } from 'react-i18next';
 import { RERUM_APP_URL } from '../lib/constants';
+import { COMMON_CURRENCIES } from '../lib/price';
+import NameDialog from './NameDialog';
 import type {
   EstimateDocumentSummary,
   EstimateDocumentDto,
@@ -33,14 +38,34 @@ interface DocumentPickerProps {
   onTabChange: (tabId: string | null) => void;
   /** Whether the picker is disabled. */
   disabled: boolean;
+  /** Currency of the selected document (ISO 4217), or `null` when not set. */
+  documentCurrency?: string | null;
+  /** Callback when the user sets the document currency. Hides the picker when omitted. */
+  onDocumentCurrencyChange?: (currency: string | null) => void;
+  /** Creates a document and selects it. Hides "New document…" when omitted. */
+  onCreateDocument?: (documentName: string) => Promise<void>;
+  /** Creates a tab in the selected document and selects it. Hides "New tab…" when omitted. */
+  onCreateTab?: (tabName: string) => Promise<void>;
 }
 
+/** Sentinel values for the "New document…" / "New tab…" entries. */
+const NEW_DOCUMENT_OPTION: EstimateDocumentSummary = {
+  uuid: '__new_document__',
+  documentName: '',
+  created: '',
+  updated: '',
+};
+const NEW_TAB_VALUE = '__new_tab__';
+
+const filterDocuments = createFilterOptions<EstimateDocumentSummary>();
+
 /**
  * Document and tab selection component.
  *
  * Uses MUI Autocomplete for document search/selection with lock icon
  * indicators for locked documents. A secondary Select dropdown populates
- * tab options when a document is chosen.
+ * tab options when a document is chosen, next to the document's currency.
+ * Both lists end with an entry that creates a new document or tab.
  */
 function DocumentPicker({
   documents,
@@ -50,8 +75,14 @@ function DocumentPicker({
   onDocumentChange,
   onTabChange,
   disabled,
+  documentCurrency = null,
+  onDocumentCurrencyChange,
+  onCreateDocument,
+  onCreateTab,
 }: DocumentPickerProps) {
   const { t } = useTranslation();
+  const [searchText, setSearchText] = useState('');
+  const [dialog, setDialog] = useState<'document' | 'tab' | null>(null);
   const selectedDocSummary = documents.find((d) => d.uuid === selectedDocumentUuid) ?? null;
   const isLocked = selectedDocSummary?.isLocked ?? false;
   const tabs = selectedDocument?.documentContent.tabs ?? [];
@@ -67,15 +98,40 @@ function DocumentPicker({
         options={documents}
         value={selectedDocSummary}
         onChange={(_event, newValue) => {
+          if (newValue?.uuid === NEW_DOCUMENT_OPTION.uuid) {
+            setDialog('document');
+            return;
+          }
           onDocumentChange(newValue?.uuid ?? null);
         }}
-        getOptionLabel={(option) => option.documentName}
+        onInputChange={(_event, value, reason) => {
+          if (reason === 'input') setSearchText(value);
+        }}
+        filterOptions={(options, state) => {
+          const filtered = filterDocuments(options, state);
+          return onCreateDocument ? [...filtered, NEW_DOCUMENT_OPTION] : filtered;
+        }}
+        getOptionLabel={(option) =>
+          option.uuid === NEW_DOCUMENT_OPTION.uuid ? t('document.new') : option.documentName
+        }
         isOptionEqualToValue={(option, value) => option.uuid === value.uuid}
         disabled={disabled}
         size="small"
         renderOption={(props, option) => {
           // eslint-disable-next-line @typescript-eslint/no-unused-vars
           const { key, ...rest } = props;
+          if (option.uuid === NEW_DOCUMENT_OPTION.uuid) {
+            return (
+              <li key={option.uuid} {...rest}>
+                <ListItemIcon sx={{ minWidth: 28 }}>
+                  <AddIcon fontSize="small" color="primary" />
+                </ListItemIcon>
+                <Typography variant="body2" color="primary">
+                  {t('document.new')}
+                </Typography>
+              </li>
+            );
+          }
           return (
             <li key={option.uuid} {...rest}>
               <Box
@@ -124,22 +180,82 @@ function DocumentPicker({
         </Alert>
       )}
 
-      {/* Tab Select */}
-      <FormControl size="small" fullWidth disabled={!selectedDocumentUuid || tabs.length === 0 || disabled || isLocked}>
-        <InputLabel id="tab-select-label">{t('document.tab')}</InputLabel>
-        <Select
-          labelId="tab-select-label"
-          value={selectedTabId ?? ''}
-          label={t('document.tab')}
-          onChange={(e) => onTabChange(e.target.value || null)}
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        {/* Tab Select */}
+        <FormControl
+          size="small"
+          fullWidth
+          disabled={!selectedDocumentUuid || (tabs.length === 0 && !onCreateTab) || disabled || isLocked}
         >
-          {tabs.map((tab) => (
-            <MenuItem key={tab.tab_id} value={tab.tab_id}>
-              {tab.tab_name}
-            </MenuItem>
-          ))}
-        </Select>
-      </FormControl>
+          <InputLabel id="tab-select-label">{t('document.tab')}</InputLabel>
+          <Select
+            labelId="tab-select-label"
+            value={selectedTabId ?? ''}
+            label={t('document.tab')}
+            onChange={(e) => {
+              if (e.target.value === NEW_TAB_VALUE) {
+                setDialog('tab');
+                return;
+              }
+              onTabChange(e.target.value || null);
+            }}
+          >
+            {tabs.map((tab) => (
+              <MenuItem key={tab.tab_id} value={tab.tab_id}>
+                {tab.tab_name}
+              </MenuItem>
+            ))}
+            {onCreateTab && (
+              <MenuItem value={NEW_TAB_VALUE} sx={{ color: 'primary.main' }}>
+                <AddIcon fontSize="small" sx={{ mr: 1 }} />
+                {t('document.newTab')}
+              </MenuItem>
+            )}
+          </Select>
+        </FormControl>
+
+        {/* Document currency (stored locally per document) */}
+        {onDocumentCurrencyChange && (
+          <FormControl size="small" sx={{ minWidth: 96 }} disabled={!selectedDocumentUuid || disabled}>
+            <InputLabel id="currency-select-label">{t('document.currency')}</InputLabel>
+            <Select
+              labelId="currency-select-label"
+              value={documentCurrency ?? ''}
+              label={t('document.currency')}
+              onChange={(e) => onDocumentCurrencyChange(e.target.value || null)}
+            >
+              <MenuItem value="">
+                <em>{t('document.currencyNone')}</em>
+              </MenuItem>
+              {COMMON_CURRENCIES.map((code) => (
+                <MenuItem key={code} value={code}>
+                  {code}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+      </Box>
+
+      {onCreateDocument && (
+        <NameDialog
+          open={dialog === 'document'}
+          title={t('document.newTitle')}
+          label={t('document.nameLabel')}
+          initialValue={searchText}
+          onSubmit={onCreateDocument}
+          onClose={() => setDialog(null)}
+        />
+      )}
+      {onCreateTab && (
+        <NameDialog
+          open={dialog === 'tab'}
+          title={t('document.newTabTitle')}
+          label={t('document.tabNameLabel')}
+          onSubmit={onCreateTab}
+          onClose={() => setDialog(null)}
+        />
+      )}
     </Box>
   );
 }
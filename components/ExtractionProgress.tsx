@@ -1,12 +1,19 @@
 import { Box, CircularProgress, Typography } from '@mui/material';
 import { useTranslation } from 'react-i18next';
+import type { ExtractionStep } from '../lib/messaging';
+
+interface ExtractionProgressProps {
+  /** Current step of the extraction; adds a sub-step line while waiting for the page. */
+  step?: ExtractionStep;
+}
 
 /**
  * Loading state shown while the backend AI extraction is in progress.
  *
- * Centered spinner with descriptive text.
+ * Centered spinner with descriptive text, plus a sub-step line while the
+ * extension waits for the page to finish rendering.
  */
-function ExtractionProgress() {
+function ExtractionProgress({ step = 'analyzing' }: ExtractionProgressProps) {
   const { t } = useTranslation();
 
   return (
@@ -24,6 +31,11 @@ function ExtractionProgress() {
       <Typography variant="body2" color="text.secondary">
         {t('extraction.analyzing')}
       </Typography>
+      {step === 'waiting-for-page' && (
+        <Typography variant="caption" color="text.secondary">
+          {t('extraction.waitingForPage')}
+        </Typography>
+      )}
     </Box>
   );
 }
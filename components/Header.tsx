@@ -17,6 +17,7 @@ import {
   ManageAccounts as AccountIcon,
   Logout as LogoutIcon,
   Language as LanguageIcon,
+  Tune as TuneIcon,
 } from '@mui/icons-material';
 import { useTranslation } from 'react-i18next';
 import { RERUM_APP_URL } from '../lib/constants';
@@ -25,6 +26,8 @@ import { sendMessage } from '../lib/messaging';
 interface HeaderProps {
   /** Currently logged-in user's email, or `null` if unauthenticated. */
   email: string | null;
+  /** Opens the extension settings dialog. Hides the menu entry when omitted. */
+  onOpenSettings?: () => void;
 }
 
 const LANGUAGES = [
@@ -36,9 +39,10 @@ const LANGUAGES = [
  * Top header bar for the Rerum extension Side Panel.
  *
  * Displays the Rerum logo on a gradient background, the user's email
- * (truncated), and a settings menu with account, language, and logout options.
+ * (truncated), and a settings menu with account, extension settings, language,
+ * and logout options.
  */
-function Header({ email }: HeaderProps) {
+function Header({ email, onOpenSettings }: HeaderProps) {
   const { t, i18n } = useTranslation();
   const truncatedEmail = email && email.length > 20 ? `${email.slice(0, 20)}...` : email;
 
@@ -69,6 +73,11 @@ function Header({ email }: HeaderProps) {
     browser.tabs.create({ url: `${RERUM_APP_URL}/account` });
   };
 
+  const handleOpenSettings = () => {
+    handleMenuClose();
+    onOpenSettings?.();
+  };
+
   const handleLanguageChange = (code: string) => {
     setLanguage(code);
     i18n.changeLanguage(code);
@@ -140,6 +149,14 @@ function Header({ email }: HeaderProps) {
             </ListItemIcon>
             <ListItemText>{t('header.accountSettings')}</ListItemText>
           </MenuItem>
+          {onOpenSettings && (
+            <MenuItem dense onClick={handleOpenSettings}>
+              <ListItemIcon sx={{ minWidth: 32 }}>
+                <TuneIcon fontSize="small" />
+              </ListItemIcon>
+              <ListItemText>{t('header.extensionSettings')}</ListItemText>
+            </MenuItem>
+          )}
 
           <Divider sx={{ my: 0.5 }} />
 
@@ -0,0 +1,116 @@
+import {
+  Box,
+  Checkbox,
+  FormControlLabel,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import { useTranslation } from 'react-i18next';
+import type { ListingItem } from '../shared-types/estimate';
+
+interface ListingPickerProps {
+  /** Products detected on the listing page. */
+  items: ListingItem[];
+  /** URLs of the currently ticked products. */
+  selectedUrls: Set<string>;
+  /** Callback when the selection changes. */
+  onChange: (selectedUrls: Set<string>) => void;
+  /** When true, the checkboxes are read-only (e.g. during save). */
+  disabled?: boolean;
+}
+
+/**
+ * Checklist of products detected on a category or search-result page.
+ *
+ * Each entry shows the product thumbnail, name and price as found on the
+ * listing. A "Select all" toggle above the list ticks or clears every entry.
+ */
+function ListingPicker({ items, selectedUrls, onChange, disabled = false }: ListingPickerProps) {
+  const { t } = useTranslation();
+  const allSelected = items.length > 0 && items.every((item) => selectedUrls.has(item.url));
+  const someSelected = !allSelected && items.some((item) => selectedUrls.has(item.url));
+
+  const handleToggle = (url: string) => {
+    const next = new Set(selectedUrls);
+    if (next.has(url)) {
+      next.delete(url);
+    } else {
+      next.add(url);
+    }
+    onChange(next);
+  };
+
+  const handleToggleAll = () => {
+    onChange(allSelected ? new Set() : new Set(items.map((item) => item.url)));
+  };
+
+  return (
+    <Box sx={{ bgcolor: 'background.paper', borderRadius: 1, p: 1.5 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="subtitle2" color="text.secondary">
+          {t('listing.detected', { count: items.length })}
+        </Typography>
+        <FormControlLabel
+          control={
+            <Checkbox
+              size="small"
+              checked={allSelected}
+              indeterminate={someSelected}
+              onChange={handleToggleAll}
+              disabled={disabled}
+            />
+          }
+          label={<Typography variant="caption">{t('listing.selectAll')}</Typography>}
+          sx={{ mr: 0 }}
+        />
+      </Box>
+
+      <List dense disablePadding sx={{ maxHeight: 320, overflowY: 'auto' }}>
+        {items.map((item) => (
+          <ListItem key={item.url} disablePadding>
+            <ListItemButton
+              onClick={() => handleToggle(item.url)}
+              disabled={disabled}
+              sx={{ px: 0.5, gap: 1 }}
+            >
+              <ListItemIcon sx={{ minWidth: 0 }}>
+                <Checkbox
+                  size="small"
+                  edge="start"
+                  checked={selectedUrls.has(item.url)}
+                  tabIndex={-1}
+                  disableRipple
+                />
+              </ListItemIcon>
+              {item.image ? (
+                <Box
+                  component="img"
+                  src={item.image}
+                  alt=""
+                  loading="lazy"
+                  sx={{ width: 40, height: 40, objectFit: 'cover', borderRadius: 0.5, flexShrink: 0 }}
+                />
+              ) : (
+                <Box sx={{ width: 40, height: 40, bgcolor: 'grey.100', borderRadius: 0.5, flexShrink: 0 }} />
+              )}
+              <ListItemText
+                primary={item.name ?? item.url}
+                secondary={item.price}
+                slotProps={{
+                  primary: { noWrap: true, variant: 'body2' },
+                  secondary: { noWrap: true, variant: 'caption' },
+                }}
+              />
+            </ListItemButton>
+          </ListItem>
+        ))}
+      </List>
+    </Box>
+  );
+}
+
+export default ListingPicker;
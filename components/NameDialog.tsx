@@ -0,0 +1,105 @@
+import { useState, useEffect } from 'react';
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+} from '@mui/material';
+import { useTranslation } from 'react-i18next';
+
+interface NameDialogProps {
+  /** Whether the dialog is shown. */
+  open: boolean;
+  /** Dialog heading, e.g. "New document". */
+  title: string;
+  /** Label of the name field. */
+  label: string;
+  /** Value the field starts with each time the dialog opens. */
+  initialValue?: string;
+  /**
+   * Called with the trimmed name. The dialog stays open (with a spinner)
+   * until the promise settles, and shows the error if it rejects.
+   */
+  onSubmit: (name: string) => Promise<void>;
+  /** Callback when the dialog is dismissed. */
+  onClose: () => void;
+}
+
+/**
+ * Small dialog asking for a single name, used to create documents and tabs
+ * from the Side Panel.
+ */
+function NameDialog({ open, title, label, initialValue = '', onSubmit, onClose }: NameDialogProps) {
+  const { t } = useTranslation();
+  const [name, setName] = useState(initialValue);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setName(initialValue);
+      setError(null);
+      setSubmitting(false);
+    }
+  }, [open, initialValue]);
+
+  const trimmed = name.trim();
+
+  const handleSubmit = async () => {
+    if (!trimmed || submitting) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(trimmed);
+      onClose();
+    } catch (err) {
+      // sendMessage rejects with an ERROR response ({ error: string }).
+      const message = err && typeof err === 'object' && 'error' in err ? String(err.error) : null;
+      setError(message ?? t('error.unexpected'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={submitting ? undefined : onClose} fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        <TextField
+          autoFocus
+          fullWidth
+          size="small"
+          label={label}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') void handleSubmit();
+          }}
+          disabled={submitting}
+          sx={{ mt: 1 }}
+          slotProps={{ htmlInput: { maxLength: 255 } }}
+        />
+        {error && <Alert severity="error">{error}</Alert>}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={submitting}>
+          {t('action.cancel')}
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => void handleSubmit()}
+          disabled={!trimmed || submitting}
+          startIcon={submitting ? <CircularProgress size={16} color="inherit" /> : undefined}
+        >
+          {t('action.create')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default NameDialog;
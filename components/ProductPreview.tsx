@@ -1,11 +1,34 @@
 import { useMemo, useCallback } from 'react';
 import {
+  Alert,
   Box,
+  Chip,
+  FormControl,
+  IconButton,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Select,
   TextField,
+  Tooltip,
   Typography,
 } from '@mui/material';
+import { AdsClick as PickIcon } from '@mui/icons-material';
 import { useTranslation } from 'react-i18next';
-import type { ExtractedProductData, ColumnDefinitionApi } from '../shared-types/estimate';
+import { describeVariant } from '../lib/variants';
+import { convertPrice } from '../lib/currency';
+import { parsePrice } from '../lib/price';
+import type {
+  ExtractedProductData,
+  ColumnDefinitionApi,
+  ProductHints,
+  ProductOffer,
+  ProductVariant,
+} from '../shared-types/estimate';
+
+/** Stock statuses shown in green; the rest are amber, except the ones below. */
+const AVAILABLE_STATUSES = new Set(['InStock', 'InStoreOnly', 'OnlineOnly']);
+const UNAVAILABLE_STATUSES = new Set(['OutOfStock', 'SoldOut', 'Discontinued']);
 
 /** System column keys that are handled outside this form. */
 const EXCLUDED_SYSTEM_COLUMNS = new Set(['productImageUrl', 'productUrl']);
@@ -31,6 +54,35 @@ interface ProductPreviewProps {
   columnDefinitions?: ColumnDefinitionApi[] | null;
   /** When true, all fields are read-only (e.g. during save). */
   disabled?: boolean;
+  /** Variants detected on the page; a picker is shown when there are several. */
+  variants?: ProductVariant[];
+  /** Index of the chosen variant in `variants`, or `null` when none is chosen. */
+  selectedVariantIndex?: number | null;
+  /** Called when the user picks a variant. */
+  onVariantChange?: (index: number) => void;
+  /** Currency of the price as detected on the page (ISO 4217). */
+  currency?: string | null;
+  /** Currency of the target document; a warning is shown when it differs. */
+  documentCurrency?: string | null;
+  /** Rate from `currency` to `documentCurrency`, or `null` when none is configured. */
+  exchangeRate?: string | null;
+  /**
+   * Starts the page element picker for a field (`column_key`, or the
+   * ExtractedProductData field name). Hides the pick buttons when omitted.
+   */
+  onPickField?: (field: string) => void;
+  /** Field the picker is currently filling, if any. */
+  pickingField?: string | null;
+  /** Page hints; their identifiers and stock status are shown above the fields. */
+  hints?: ProductHints | null;
+  /** Quantity chosen on the shop page; noted under the quantity field while it is kept. */
+  pageQuantity?: number | null;
+  /** Offers from different sellers; a picker is shown when there are several. */
+  offers?: ProductOffer[];
+  /** Index of the chosen offer in `offers`, or `null` when none is chosen. */
+  selectedOfferIndex?: number | null;
+  /** Called when the user picks the offer to quote. */
+  onOfferChange?: (index: number) => void;
 }
 
 /**
@@ -41,7 +93,25 @@ interface ProductPreviewProps {
  * as empty editable fields. When not provided, falls back to showing only
  * the fields present in the extracted data.
  */
-function ProductPreview({ data, onChange, columnDefinitions, disabled = false }: ProductPreviewProps) {
+function ProductPreview({
+  data,
+  onChange,
+  columnDefinitions,
+  disabled = false,
+  variants,
+  selectedVariantIndex = null,
+  onVariantChange,
+  currency = null,
+  documentCurrency = null,
+  exchangeRate = null,
+  onPickField,
+  pickingField = null,
+  hints = null,
+  pageQuantity = null,
+  offers,
+  selectedOfferIndex = null,
+  onOfferChange,
+}: ProductPreviewProps) {
   const { t } = useTranslation();
 
   // Columns to render, sorted by display_order, excluding image/url handled elsewhere.
@@ -59,6 +129,15 @@ function ProductPreview({ data, onChange, columnDefinitions, disabled = false }:
     [data, onChange],
   );
 
+  // A typed price is normalised once the user leaves the field ("12,50" ->
+  // "12.50"); already normalised values come back unchanged.
+  const handlePriceBlur = useCallback(() => {
+    const price = parsePrice(data.pricePerUnit);
+    if (price && price !== data.pricePerUnit) {
+      onChange({ ...data, pricePerUnit: price });
+    }
+  }, [data, onChange]);
+
   const handleQuantityChange = useCallback(
     (value: string) => {
       const num = parseInt(value, 10);
@@ -112,6 +191,142 @@ function ProductPreview({ data, onChange, columnDefinitions, disabled = false }:
     }
   };
 
+  // Variant picker — choosing a variant rewrites price, name, SKU and image.
+  const variantSelect = variants && variants.length > 1 && onVariantChange ? (
+    <FormControl size="small" fullWidth disabled={disabled}>
+      <InputLabel id="variant-select-label">{t('product.variant')}</InputLabel>
+      <Select
+        labelId="variant-select-label"
+        value={selectedVariantIndex != null ? String(selectedVariantIndex) : ''}
+        label={t('product.variant')}
+        onChange={(e) => onVariantChange(Number(e.target.value))}
+      >
+        {variants.map((variant, index) => (
+          <MenuItem key={index} value={String(index)}>
+            {describeVariant(variant) || t('product.variantNumber', { number: index + 1 })}
+            {variant.price ? ` — ${variant.price}` : ''}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  ) : null;
+
+  // Seller offer picker (marketplaces, price comparison sites) — choosing an
+  // offer rewrites price and link and records the seller.
+  const describeOffer = (offer: ProductOffer) => {
+    const parts = [`${offer.seller} — ${offer.price}${offer.currency ? ` ${offer.currency}` : ''}`];
+    if (offer.shippingPrice) {
+      parts.push(Number(offer.shippingPrice) === 0
+        ? t('offers.freeShipping')
+        : t('offers.shipping', { price: offer.shippingPrice }));
+    }
+    if (offer.condition) parts.push(t(`condition.${offer.condition}`));
+    if (offer.availability && offer.availability !== 'InStock') parts.push(t(`availability.${offer.availability}`));
+    return parts.join(' · ');
+  };
+  const offerSelect = offers && offers.length > 1 && onOfferChange ? (
+    <FormControl size="small" fullWidth disabled={disabled}>
+      <InputLabel id="offer-select-label">{t('offers.label', { count: offers.length })}</InputLabel>
+      <Select
+        labelId="offer-select-label"
+        value={selectedOfferIndex != null ? String(selectedOfferIndex) : ''}
+        label={t('offers.label', { count: offers.length })}
+        onChange={(e) => onOfferChange(Number(e.target.value))}
+      >
+        {offers.map((offer, index) => (
+          <MenuItem key={index} value={String(index)} sx={{ whiteSpace: 'normal' }}>
+            {describeOffer(offer)}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  ) : null;
+
+  // End adornment of a field: the page currency next to the price, and a
+  // button that fills the field from an element picked on the page.
+  const endAdornmentFor = (field: string) => {
+    const suffix = field === 'pricePerUnit' ? currency : null;
+    const pickButton = onPickField && !disabled && field !== 'quantity' ? (
+      <Tooltip title={t('picker.pickFromPage')}>
+        <IconButton
+          size="small"
+          edge="end"
+          color={pickingField === field ? 'primary' : 'default'}
+          onClick={() => onPickField(field)}
+          aria-label={t('picker.pickFromPage')}
+        >
+          <PickIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+    ) : null;
+    if (!suffix && !pickButton) return undefined;
+    return (
+      <InputAdornment position="end">
+        {suffix}
+        {pickButton}
+      </InputAdornment>
+    );
+  };
+  const pickingHint = (field: string) => (pickingField === field ? t('picker.pickingHint') : undefined);
+  const quantityHint = pageQuantity != null && data.quantity === pageQuantity
+    ? t('product.quantityFromPage')
+    : undefined;
+
+  // Identifiers and stock status from the page's structured data. The chosen
+  // variant's SKU replaces the product's.
+  const sku = (selectedVariantIndex != null ? variants?.[selectedVariantIndex]?.sku : undefined) ?? hints?.sku;
+  const identifiers = [
+    hints?.gtin ? `${t('product.gtin')}: ${hints.gtin}` : null,
+    sku ? `${t('product.sku')}: ${sku}` : null,
+    hints?.mpn ? `${t('product.mpn')}: ${hints.mpn}` : null,
+    hints?.priceValidUntil ? t('product.priceValidUntil', { date: hints.priceValidUntil }) : null,
+  ].filter(Boolean);
+  const productDetails = identifiers.length > 0 || hints?.availability ? (
+    <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1 }}>
+      {hints?.availability && (
+        <Chip
+          size="small"
+          variant="outlined"
+          label={t(`availability.${hints.availability}`)}
+          color={
+            AVAILABLE_STATUSES.has(hints.availability)
+              ? 'success'
+              : UNAVAILABLE_STATUSES.has(hints.availability)
+                ? 'error'
+                : 'warning'
+          }
+        />
+      )}
+      {identifiers.length > 0 && (
+        <Typography variant="caption" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+          {identifiers.join(' · ')}
+        </Typography>
+      )}
+    </Box>
+  ) : null;
+
+  // When the document uses another currency than the page, show the
+  // conversion that will be applied, or warn if there is no rate for the pair.
+  const convertedPrice =
+    exchangeRate && data.pricePerUnit ? convertPrice(data.pricePerUnit, exchangeRate) : null;
+  const currencyWarning =
+    currency && documentCurrency && currency !== documentCurrency ? (
+      exchangeRate ? (
+        <Alert severity="info" sx={{ py: 0.5 }}>
+          {t('product.currencyConversion', {
+            pageCurrency: currency,
+            documentCurrency,
+            rate: exchangeRate,
+            price: convertedPrice ?? '—',
+          })}
+        </Alert>
+      ) : (
+        <Alert severity="warning" sx={{ py: 0.5 }}>
+          {t('product.currencyMismatch', { pageCurrency: currency, documentCurrency })}
+        </Alert>
+      )
+    ) : null;
+
   // Column-driven rendering (when columnDefinitions are available).
   if (columns) {
     return (
@@ -120,17 +335,31 @@ function ProductPreview({ data, onChange, columnDefinitions, disabled = false }:
           {t('product.preview')}
         </Typography>
 
+        {variantSelect}
+
+        {offerSelect}
+
+        {productDetails}
+
+        {currencyWarning}
+
         {columns.map((col) => (
           <TextField
             key={col.column_key}
             label={col.display_name}
             value={getFieldValue(col)}
             onChange={(e) => handleColumnChange(col, e.target.value)}
+            onBlur={col.column_key === 'pricePerUnit' ? handlePriceBlur : undefined}
             size="small"
             fullWidth
             disabled={disabled}
             type={col.column_key === 'quantity' ? 'number' : 'text'}
-            slotProps={col.column_key === 'quantity' ? { htmlInput: { min: 1 } } : undefined}
+            helperText={col.column_key === 'quantity' ? quantityHint : pickingHint(col.column_key)}
+            slotProps={
+              col.column_key === 'quantity'
+                ? { htmlInput: { min: 1 } }
+                : { input: { endAdornment: endAdornmentFor(col.column_key) } }
+            }
             multiline={col.column_key === 'comment'}
             minRows={col.column_key === 'comment' ? 2 : undefined}
             maxRows={col.column_key === 'comment' ? 4 : undefined}
@@ -148,6 +377,14 @@ function ProductPreview({ data, onChange, columnDefinitions, disabled = false }:
         {t('product.preview')}
       </Typography>
 
+      {variantSelect}
+
+      {offerSelect}
+
+      {productDetails}
+
+      {currencyWarning}
+
       <TextField
         label={t('product.name')}
         value={data.productName ?? ''}
@@ -155,6 +392,8 @@ function ProductPreview({ data, onChange, columnDefinitions, disabled = false }:
         size="small"
         fullWidth
         disabled={disabled}
+        helperText={pickingHint('productName')}
+        slotProps={{ input: { endAdornment: endAdornmentFor('productName') } }}
       />
 
       <TextField
@@ -164,15 +403,20 @@ function ProductPreview({ data, onChange, columnDefinitions, disabled = false }:
         size="small"
         fullWidth
         disabled={disabled}
+        helperText={pickingHint('manufacturer')}
+        slotProps={{ input: { endAdornment: endAdornmentFor('manufacturer') } }}
       />
 
       <TextField
         label={t('product.pricePerUnit')}
         value={data.pricePerUnit ?? ''}
         onChange={(e) => handleSystemFieldChange('pricePerUnit', e.target.value || null)}
+        onBlur={handlePriceBlur}
         size="small"
         fullWidth
         disabled={disabled}
+        helperText={pickingHint('pricePerUnit')}
+        slotProps={{ input: { endAdornment: endAdornmentFor('pricePerUnit') } }}
       />
 
       <TextField
@@ -184,6 +428,7 @@ function ProductPreview({ data, onChange, columnDefinitions, disabled = false }:
         fullWidth
         slotProps={{ htmlInput: { min: 1 } }}
         disabled={disabled}
+        helperText={quantityHint}
       />
     </Box>
   );
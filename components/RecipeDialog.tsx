@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  ListSubheader,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, DeleteOutline as DeleteIcon } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { RECIPE_SYSTEM_FIELDS, cleanRecipeFields } from '../lib/recipes';
+import type { ExtractionRecipe, RecipeField } from '../lib/storage';
+import type { ColumnDefinitionApi } from '../shared-types/estimate';
+
+interface RecipeDialogProps {
+  /** Whether the dialog is shown. */
+  open: boolean;
+  /** Origin of the current page, e.g. `https://shop.example.com`. */
+  origin: string;
+  /** Recipe already saved for `origin`, if any. */
+  recipe: ExtractionRecipe | null;
+  /** Columns of the selected document, offered as custom field targets. */
+  columnDefinitions?: ColumnDefinitionApi[] | null;
+  /** Callback with the cleaned recipe when the user saves. */
+  onSave: (recipe: ExtractionRecipe) => void;
+  /** Callback when the dialog is dismissed without saving. */
+  onClose: () => void;
+}
+
+/** i18n keys of the system fields a recipe can fill. */
+const SYSTEM_FIELD_LABELS: Record<string, string> = {
+  productName: 'product.name',
+  manufacturer: 'product.manufacturer',
+  pricePerUnit: 'product.pricePerUnit',
+  productImageUrl: 'recipe.imageUrl',
+};
+
+/**
+ * Editor for the extraction recipe of one site.
+ *
+ * Each row maps a CSS selector (or XPath expression) on the page to a system
+ * field or a custom column. Once saved, extracting a product on the same site
+ * reads these elements directly instead of calling the AI. Saving a recipe
+ * without rows deletes it.
+ */
+function RecipeDialog({ open, origin, recipe, columnDefinitions, onSave, onClose }: RecipeDialogProps) {
+  const { t } = useTranslation();
+  const [fields, setFields] = useState<RecipeField[]>([]);
+
+  // Start from the saved recipe (or an empty name row) each time it opens.
+  useEffect(() => {
+    if (open) {
+      setFields(recipe?.fields.length ? recipe.fields : [{ key: 'productName', selector: '' }]);
+    }
+  }, [open, recipe]);
+
+  const customColumns = (columnDefinitions ?? []).filter((col) => !col.is_system_column);
+
+  const updateField = (index: number, patch: Partial<RecipeField>) => {
+    setFields((prev) => prev.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+  };
+
+  const handleAdd = () => {
+    const unused = RECIPE_SYSTEM_FIELDS.find((key) => !fields.some((f) => f.key === key));
+    setFields((prev) => [...prev, { key: unused ?? customColumns[0]?.column_key ?? 'productName', selector: '' }]);
+  };
+
+  const handleRemove = (index: number) => {
+    setFields((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    onSave({ origin, fields: cleanRecipeFields(fields) });
+  };
+
+  // A saved recipe may target a column the selected document does not have.
+  const isKnownKey = (key: string) =>
+    RECIPE_SYSTEM_FIELDS.includes(key) || customColumns.some((col) => col.column_key === key);
+
+  return (
+    <Dialog open={open} onClose={onClose} fullScreen>
+      <DialogTitle>{t('recipe.title')}</DialogTitle>
+      <DialogContent dividers sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+        <Typography variant="body2" sx={{ wordBreak: 'break-all' }}>
+          {origin}
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          {t('recipe.hint')}
+        </Typography>
+
+        {fields.map((field, index) => (
+          <Box key={index} sx={{ display: 'flex', flexDirection: 'column', gap: 1, pb: 1 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <TextField
+                select
+                size="small"
+                label={t('recipe.field')}
+                value={field.key}
+                onChange={(e) => updateField(index, { key: e.target.value })}
+                sx={{ flex: 1 }}
+              >
+                {RECIPE_SYSTEM_FIELDS.map((key) => (
+                  <MenuItem key={key} value={key}>
+                    {t(SYSTEM_FIELD_LABELS[key] ?? key)}
+                  </MenuItem>
+                ))}
+                {customColumns.length > 0 && <ListSubheader>{t('recipe.customColumns')}</ListSubheader>}
+                {customColumns.map((col) => (
+                  <MenuItem key={col.column_key} value={col.column_key}>
+                    {col.display_name}
+                  </MenuItem>
+                ))}
+                {!isKnownKey(field.key) && (
+                  <MenuItem value={field.key}>{field.key}</MenuItem>
+                )}
+              </TextField>
+              <IconButton
+                size="small"
+                onClick={() => handleRemove(index)}
+                aria-label={t('recipe.removeField')}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <TextField
+                size="small"
+                label={t('recipe.selector')}
+                placeholder="h1.product-title"
+                value={field.selector}
+                onChange={(e) => updateField(index, { selector: e.target.value })}
+                slotProps={{ htmlInput: { spellCheck: false, style: { fontFamily: 'monospace' } } }}
+                sx={{ flex: 2 }}
+              />
+              <TextField
+                size="small"
+                label={t('recipe.attribute')}
+                placeholder="src"
+                value={field.attribute ?? ''}
+                onChange={(e) => updateField(index, { attribute: e.target.value })}
+                slotProps={{ htmlInput: { spellCheck: false, style: { fontFamily: 'monospace' } } }}
+                sx={{ flex: 1 }}
+              />
+            </Box>
+          </Box>
+        ))}
+
+        <Button size="small" startIcon={<AddIcon />} onClick={handleAdd} sx={{ alignSelf: 'flex-start' }}>
+          {t('recipe.addField')}
+        </Button>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('action.cancel')}</Button>
+        <Button variant="contained" onClick={handleSave}>
+          {t('action.save')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default RecipeDialog;
@@ -0,0 +1,271 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, DeleteOutline as DeleteIcon } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import { COMMON_CURRENCIES } from '../lib/price';
+import { cleanExchangeRates, isValidRate } from '../lib/currency';
+import { DEFAULT_URL_STRIP_RULES } from '../lib/url';
+import type { ExchangeRate, ExtractionRecipe } from '../lib/storage';
+
+/** Values edited in the settings dialog. */
+export interface SettingsValues {
+  exchangeRates: ExchangeRate[];
+  /** Tracking-parameter rules, or `null` to use the built-in defaults. */
+  urlStripRules: string[] | null;
+  extractionRecipes: ExtractionRecipe[];
+}
+
+interface SettingsDialogProps {
+  /** Whether the dialog is shown. */
+  open: boolean;
+  /** Currently stored exchange rates. */
+  exchangeRates: ExchangeRate[];
+  /** Currently active tracking-parameter rules. */
+  urlStripRules: readonly string[];
+  /** Saved per-site extraction recipes; only removal happens here. */
+  extractionRecipes: ExtractionRecipe[];
+  /** Callback with the cleaned values when the user saves. */
+  onSave: (values: SettingsValues) => void;
+  /** Callback when the dialog is dismissed without saving. */
+  onClose: () => void;
+}
+
+/**
+ * Extension settings, opened from the header menu.
+ *
+ * Holds the user's exchange rate table: each row converts one unit of the
+ * "from" currency into the "to" currency. Rates are used to convert page
+ * prices into the document currency when a product is added. The URL
+ * cleanup rules list the tracking parameters removed from saved product
+ * links, one per line. Saved site recipes are listed so they can be removed
+ * (they are edited from the product preview). Also lists the keyboard
+ * shortcuts, which are rebound on the browser's own shortcuts page.
+ */
+function SettingsDialog({
+  open,
+  exchangeRates,
+  urlStripRules,
+  extractionRecipes,
+  onSave,
+  onClose,
+}: SettingsDialogProps) {
+  const { t } = useTranslation();
+  const [rates, setRates] = useState<ExchangeRate[]>(exchangeRates);
+  const [rulesText, setRulesText] = useState(urlStripRules.join('\n'));
+  const [recipes, setRecipes] = useState<ExtractionRecipe[]>(extractionRecipes);
+  const [shortcuts, setShortcuts] = useState<Array<{ name: string; description: string; shortcut: string }>>([]);
+
+  // Start from the stored values every time the dialog opens.
+  useEffect(() => {
+    if (open) {
+      setRates(exchangeRates);
+      setRulesText(urlStripRules.join('\n'));
+      setRecipes(extractionRecipes);
+    }
+  }, [open, exchangeRates, urlStripRules, extractionRecipes]);
+
+  // Current shortcut bindings (the user may have changed the defaults).
+  useEffect(() => {
+    if (!open || !browser.commands?.getAll) return;
+    browser.commands.getAll().then((commands) => {
+      setShortcuts(
+        commands
+          .filter((c) => c.name && c.description)
+          .map((c) => ({ name: c.name!, description: c.description!, shortcut: c.shortcut ?? '' })),
+      );
+    }).catch(() => {});
+  }, [open]);
+
+  const handleOpenShortcutSettings = () => {
+    // Firefox exposes a dedicated API; Chromium browsers use their settings page.
+    const commands = browser.commands as { openShortcutSettings?: () => Promise<void> };
+    if (commands.openShortcutSettings) {
+      commands.openShortcutSettings().catch(() => {});
+    } else {
+      browser.tabs.create({ url: 'chrome://extensions/shortcuts' }).catch(() => {});
+    }
+  };
+
+  const updateRate = (index: number, patch: Partial<ExchangeRate>) => {
+    setRates((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  const handleAdd = () => {
+    setRates((prev) => [...prev, { from: 'EUR', to: 'PLN', rate: '' }]);
+  };
+
+  const handleRemove = (index: number) => {
+    setRates((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    const rules = rulesText.split('\n').map((line) => line.trim()).filter(Boolean);
+    const isDefault =
+      rules.length === DEFAULT_URL_STRIP_RULES.length &&
+      rules.every((rule, i) => rule === DEFAULT_URL_STRIP_RULES[i]);
+    onSave({
+      exchangeRates: cleanExchangeRates(rates),
+      urlStripRules: isDefault ? null : rules,
+      extractionRecipes: recipes,
+    });
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullScreen>
+      <DialogTitle>{t('settings.title')}</DialogTitle>
+      <DialogContent dividers sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+        <Typography variant="subtitle2">{t('settings.exchangeRates')}</Typography>
+        <Typography variant="caption" color="text.secondary">
+          {t('settings.exchangeRatesHint')}
+        </Typography>
+
+        {rates.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            {t('settings.noExchangeRates')}
+          </Typography>
+        )}
+
+        {rates.map((rate, index) => (
+          <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <TextField
+              select
+              size="small"
+              label={t('settings.rateFrom')}
+              value={rate.from}
+              onChange={(e) => updateRate(index, { from: e.target.value })}
+              sx={{ minWidth: 84 }}
+            >
+              {COMMON_CURRENCIES.map((code) => (
+                <MenuItem key={code} value={code}>
+                  {code}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              size="small"
+              label={t('settings.rateTo')}
+              value={rate.to}
+              onChange={(e) => updateRate(index, { to: e.target.value })}
+              sx={{ minWidth: 84 }}
+            >
+              {COMMON_CURRENCIES.map((code) => (
+                <MenuItem key={code} value={code}>
+                  {code}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              size="small"
+              label={t('settings.rate')}
+              value={rate.rate}
+              onChange={(e) => updateRate(index, { rate: e.target.value })}
+              error={rate.rate !== '' && !isValidRate(rate.rate)}
+              slotProps={{ htmlInput: { inputMode: 'decimal' } }}
+              sx={{ flex: 1 }}
+            />
+            <IconButton
+              size="small"
+              onClick={() => handleRemove(index)}
+              aria-label={t('settings.removeRate')}
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Box>
+        ))}
+
+        <Button size="small" startIcon={<AddIcon />} onClick={handleAdd} sx={{ alignSelf: 'flex-start' }}>
+          {t('settings.addRate')}
+        </Button>
+
+        <Divider sx={{ my: 1 }} />
+        <Typography variant="subtitle2">{t('settings.urlRules')}</Typography>
+        <Typography variant="caption" color="text.secondary">
+          {t('settings.urlRulesHint')}
+        </Typography>
+        <TextField
+          multiline
+          minRows={4}
+          maxRows={12}
+          size="small"
+          value={rulesText}
+          onChange={(e) => setRulesText(e.target.value)}
+          slotProps={{ htmlInput: { spellCheck: false, style: { fontFamily: 'monospace', fontSize: 12 } } }}
+        />
+        <Button
+          size="small"
+          onClick={() => setRulesText(DEFAULT_URL_STRIP_RULES.join('\n'))}
+          sx={{ alignSelf: 'flex-start' }}
+        >
+          {t('settings.restoreDefaults')}
+        </Button>
+
+        <Divider sx={{ my: 1 }} />
+        <Typography variant="subtitle2">{t('settings.recipes')}</Typography>
+        {recipes.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            {t('settings.noRecipes')}
+          </Typography>
+        ) : (
+          recipes.map((recipe) => (
+            <Box key={recipe.origin} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <Typography variant="body2" noWrap>
+                  {recipe.origin}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {t('settings.recipeFields', { count: recipe.fields.length })}
+                </Typography>
+              </Box>
+              <IconButton
+                size="small"
+                onClick={() => setRecipes((prev) => prev.filter((r) => r.origin !== recipe.origin))}
+                aria-label={t('settings.removeRecipe')}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))
+        )}
+
+        {shortcuts.length > 0 && (
+          <>
+            <Divider sx={{ my: 1 }} />
+            <Typography variant="subtitle2">{t('settings.shortcuts')}</Typography>
+            {shortcuts.map((command) => (
+              <Box key={command.name} sx={{ display: 'flex', justifyContent: 'space-between', gap: 1 }}>
+                <Typography variant="body2">{command.description}</Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ flexShrink: 0 }}>
+                  {command.shortcut || t('settings.shortcutNotSet')}
+                </Typography>
+              </Box>
+            ))}
+            <Button size="small" onClick={handleOpenShortcutSettings} sx={{ alignSelf: 'flex-start' }}>
+              {t('settings.changeShortcuts')}
+            </Button>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('action.cancel')}</Button>
+        <Button variant="contained" onClick={handleSave}>
+          {t('action.save')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default SettingsDialog;
@@ -11,6 +11,17 @@ interface SuccessConfirmationProps {
   productName: string;
   /** UUID of the document (used to build the "Open in Rerum" link). */
   documentUuid: string;
+  /** Number of products added in one go (batch add from a listing page). */
+  productCount?: number;
+  /** Products of a batch add left out because the tab already had them. */
+  skippedCount?: number;
+  /** New quantity when an existing row was raised instead of adding a duplicate. */
+  updatedQuantity?: number;
+  /**
+   * Whether the price evidence screenshot was saved with the row (`undefined`
+   * when none was requested).
+   */
+  evidenceSaved?: boolean;
   /** Callback to reset the UI and add another product. */
   onAddAnother: () => void;
 }
@@ -18,15 +29,20 @@ interface SuccessConfirmationProps {
 /**
  * Post-add success confirmation.
  *
- * Shows a green alert indicating the product was added, with buttons
+ * Shows a green alert indicating the product was added (or, for a
+ * duplicate, that the existing row's quantity was raised), with buttons
  * to open the document in the Rerum web app or start adding another
- * product.
+ * product. When price evidence was requested, notes whether it was saved.
  */
 function SuccessConfirmation({
   documentName,
   tabName,
   productName,
   documentUuid,
+  productCount = 1,
+  skippedCount = 0,
+  updatedQuantity,
+  evidenceSaved,
   onAddAnother,
 }: SuccessConfirmationProps) {
   const { t } = useTranslation();
@@ -38,13 +54,34 @@ function SuccessConfirmation({
     <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
       <Alert severity="success">
         <Typography variant="body2" sx={{ fontWeight: 500 }}>
-          {t('product.addedSuccess')}
+          {updatedQuantity != null ? t('duplicate.updatedSuccess') : t('product.addedSuccess')}
         </Typography>
         <Typography variant="caption" color="text.secondary">
-          {t('product.addedDetail', { productName, documentName, tabName })}
+          {updatedQuantity != null
+            ? t('duplicate.updatedDetail', { productName, quantity: updatedQuantity, documentName, tabName })
+            : productCount > 1
+              ? t('listing.addedDetail', { count: productCount, documentName, tabName })
+              : t('product.addedDetail', { productName, documentName, tabName })}
         </Typography>
       </Alert>
 
+      {skippedCount > 0 && (
+        <Typography variant="caption" color="text.secondary">
+          {t('listing.skippedDuplicates', { count: skippedCount })}
+        </Typography>
+      )}
+
+      {evidenceSaved === true && (
+        <Typography variant="caption" color="text.secondary">
+          {t('evidence.saved')}
+        </Typography>
+      )}
+      {evidenceSaved === false && (
+        <Alert severity="warning" sx={{ py: 0.5 }}>
+          {t('evidence.failed')}
+        </Alert>
+      )}
+
       <Box sx={{ display: 'flex', gap: 1 }}>
         <Button variant="outlined" size="small" onClick={handleOpenInRerum} sx={{ flex: 1 }}>
           {t('product.openInRerum')}
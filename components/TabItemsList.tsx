@@ -0,0 +1,126 @@
+import { useMemo, useState } from 'react';
+import Decimal from 'decimal.js';
+import {
+  Box,
+  ButtonBase,
+  Collapse,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import { ExpandMore as ExpandMoreIcon } from '@mui/icons-material';
+import { useTranslation } from 'react-i18next';
+import type { EstimateRecordApi } from '../shared-types/estimate';
+
+interface TabItemsListProps {
+  /** Rows of the selected tab (`estimate_record_list`). */
+  records: EstimateRecordApi[];
+  /** Currency of the document, appended to amounts when known. */
+  currency?: string | null;
+}
+
+/** Parse an API price string; `null` when missing or not a number. */
+function toDecimal(value: string | null): Decimal | null {
+  if (value == null || value.trim() === '') return null;
+  try {
+    const decimal = new Decimal(value);
+    return decimal.isFinite() ? decimal : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Collapsible list of the rows already in the selected document tab.
+ *
+ * Each row shows its thumbnail, name, quantity, unit price and line total.
+ * The header shows the row count and the tab subtotal; rows without a price
+ * are listed but left out of the subtotal.
+ */
+function TabItemsList({ records, currency = null }: TabItemsListProps) {
+  const { t } = useTranslation();
+  const [expanded, setExpanded] = useState(false);
+
+  const rows = useMemo(
+    () =>
+      records.map((record) => {
+        const price = toDecimal(record.price_per_unit);
+        const quantity = record.quantity ?? 1;
+        return { record, price, quantity, total: price ? price.times(quantity) : null };
+      }),
+    [records],
+  );
+
+  const subtotal = useMemo(
+    () => rows.reduce((sum, row) => (row.total ? sum.plus(row.total) : sum), new Decimal(0)),
+    [rows],
+  );
+
+  const formatAmount = (amount: Decimal) =>
+    currency ? `${amount.toFixed(2)} ${currency}` : amount.toFixed(2);
+
+  return (
+    <Box sx={{ bgcolor: 'background.paper', borderRadius: 1 }}>
+      <ButtonBase
+        onClick={() => setExpanded((prev) => !prev)}
+        aria-expanded={expanded}
+        sx={{ width: '100%', justifyContent: 'space-between', p: 1.5, borderRadius: 1 }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+          <ExpandMoreIcon
+            fontSize="small"
+            sx={{ transform: expanded ? 'rotate(180deg)' : 'none', transition: 'transform 0.2s' }}
+          />
+          <Typography variant="subtitle2" color="text.secondary">
+            {t('tabItems.title', { count: records.length })}
+          </Typography>
+        </Box>
+        {records.length > 0 && (
+          <Typography variant="subtitle2">
+            {t('tabItems.subtotal', { amount: formatAmount(subtotal) })}
+          </Typography>
+        )}
+      </ButtonBase>
+
+      <Collapse in={expanded} unmountOnExit>
+        {records.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ px: 1.5, pb: 1.5 }}>
+            {t('tabItems.empty')}
+          </Typography>
+        ) : (
+          <List dense disablePadding sx={{ maxHeight: 320, overflowY: 'auto', px: 1, pb: 1 }}>
+            {rows.map(({ record, price, quantity, total }, index) => (
+              <ListItem key={index} disableGutters sx={{ gap: 1 }}>
+                {record.product_image_url ? (
+                  <Box
+                    component="img"
+                    src={record.product_image_url}
+                    alt=""
+                    loading="lazy"
+                    sx={{ width: 40, height: 40, objectFit: 'cover', borderRadius: 0.5, flexShrink: 0 }}
+                  />
+                ) : (
+                  <Box sx={{ width: 40, height: 40, bgcolor: 'grey.100', borderRadius: 0.5, flexShrink: 0 }} />
+                )}
+                <ListItemText
+                  primary={record.product_name ?? t('tabItems.unnamed')}
+                  secondary={`${quantity} × ${price ? price.toFixed(2) : '—'}`}
+                  slotProps={{
+                    primary: { noWrap: true, variant: 'body2' },
+                    secondary: { noWrap: true, variant: 'caption' },
+                  }}
+                />
+                <Typography variant="body2" sx={{ flexShrink: 0 }}>
+                  {total ? formatAmount(total) : '—'}
+                </Typography>
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </Collapse>
+    </Box>
+  );
+}
+
+export default TabItemsList;
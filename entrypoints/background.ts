@@ -1,17 +1,56 @@
 import { RERUM_BASE_URL, RERUM_API_URL, RERUM_CLIENT_HEADER, SYSTEM_FIELDS } from '../lib/constants';
 import type {
+  CreateDocumentRequest,
+  CreateTabRequest,
+  CreateTabResponse,
   EstimateDocumentDto,
   EstimateRecordApi,
   ExtractedProductData,
   PagedEstimateDocumentsDto,
+  PriceEvidenceRequest,
+  PriceEvidenceResponse,
+  UpdateRowRequest,
   UsageDto,
   UserDto,
 } from '../shared-types/estimate';
-import type { ExtensionMessage, ExtensionResponse } from '../lib/messaging';
-import { extractPageData, extractPageContent } from './content/extraction';
-import { sanitizePageData } from '../lib/sanitize';
-import { cacheDocumentTabs, invalidateDocumentCache } from '../lib/storage';
+import { BROADCAST_TYPES } from '../lib/messaging';
+import type {
+  ExtensionMessage,
+  ExtensionResponse,
+  PanelAction,
+  PanelActionBroadcast,
+  PageNavigatedBroadcast,
+  ExtractionProgressBroadcast,
+  ExtractionStep,
+  PickedElement,
+} from '../lib/messaging';
+import {
+  extractPageData,
+  extractPageContent,
+  applyExtractionRecipe,
+  pickPageElement,
+  cancelElementPicker,
+  locatePriceRegion,
+  waitForDomSettle,
+  extractPageSelections,
+} from './content/extraction';
+import { mergePageContent, sanitizePageData, sanitizePageSelections } from '../lib/sanitize';
+import type { PageContent, PageSelections, ProductSpec } from '../lib/sanitize';
+import {
+  cacheDocumentTabs,
+  getExtractionRecipes,
+  getLocalValue,
+  getUrlStripRules,
+  invalidateDocumentCache,
+  setSessionValue,
+} from '../lib/storage';
 import { hasHostPermissionFor } from '../lib/permissions';
+import { findExtractionRecipe } from '../lib/recipes';
+import { findDuplicateRow } from '../lib/duplicates';
+import { isSameDocumentUrl } from '../lib/url';
+import { extractPdfText, isPdfUrl, pdfFileName } from '../lib/pdf';
+import { captureTabScreenshot } from '../lib/screenshot';
+import type { CaptureRegion } from '../lib/screenshot';
 
 // ---------------------------------------------------------------------------
 // ApiError
@@ -216,10 +255,15 @@ async function apiGet<T>(path: string, params?: Record<string, string>): Promise
 }
 
 /**
- * Perform a POST request against the Rerum API.
+ * Send a request with a JSON body (none for DELETE) to the Rerum API.
  * Automatically attaches the XSRF-TOKEN header.
  */
-async function apiPost<T>(path: string, body: unknown, params?: Record<string, string>): Promise<T> {
+async function apiRequest<T>(
+  method: 'POST' | 'PATCH' | 'DELETE',
+  path: string,
+  body: unknown,
+  params?: Record<string, string>,
+): Promise<T> {
   const csrfToken = await ensureCsrfToken();
   const sessionToken = await getSessionToken();
   const url = new URL(`${RERUM_API_URL}${path}`);
@@ -239,10 +283,10 @@ async function apiPost<T>(path: string, body: unknown, params?: Record<string, s
   }
 
   const response = await fetch(url.toString(), {
-    method: 'POST',
+    method,
     credentials: 'include',
     headers,
-    body: JSON.stringify(body),
+    body: body === undefined ? undefined : JSON.stringify(body),
   });
 
   if (!response.ok) {
@@ -256,6 +300,21 @@ async function apiPost<T>(path: string, body: unknown, params?: Record<string, s
   return response.json() as Promise<T>;
 }
 
+/** Perform a POST request against the Rerum API. */
+function apiPost<T>(path: string, body: unknown, params?: Record<string, string>): Promise<T> {
+  return apiRequest<T>('POST', path, body, params);
+}
+
+/** Perform a PATCH request against the Rerum API. */
+function apiPatch<T>(path: string, body: unknown, params?: Record<string, string>): Promise<T> {
+  return apiRequest<T>('PATCH', path, body, params);
+}
+
+/** Perform a DELETE request against the Rerum API. */
+function apiDelete<T>(path: string, params?: Record<string, string>): Promise<T> {
+  return apiRequest<T>('DELETE', path, undefined, params);
+}
+
 // ---------------------------------------------------------------------------
 // Sanitization helpers now imported from ../lib/sanitize
 // ---------------------------------------------------------------------------
@@ -394,6 +453,52 @@ async function handleFetchDocument(documentUuid: string): Promise<ExtensionRespo
   return { type: 'DOCUMENT_RESULT', document };
 }
 
+/**
+ * Create an empty estimate document. The server applies the user's default
+ * column configuration and an initial tab.
+ */
+async function handleCreateDocument(documentName: string): Promise<ExtensionResponse> {
+  const name = documentName.trim();
+  if (!name) {
+    throw new ApiError(400, 'Document name is required');
+  }
+
+  const body: CreateDocumentRequest = { documentName: name };
+  const document = await apiPost<EstimateDocumentDto>('/document', body);
+  return { type: 'DOCUMENT_CREATED', document };
+}
+
+/**
+ * Append a tab to a document, then re-fetch the document so the Side Panel
+ * gets the updated tab list (and the tab cache is refreshed).
+ */
+async function handleCreateTab(documentUuid: string, tabName: string): Promise<ExtensionResponse> {
+  const name = tabName.trim();
+  if (!name) {
+    throw new ApiError(400, 'Tab name is required');
+  }
+
+  const body: CreateTabRequest = { tabName: name };
+  const created = await apiPost<CreateTabResponse>(`/document/${documentUuid}/tab`, body);
+
+  const refreshed = await handleFetchDocument(documentUuid);
+  if (refreshed.type !== 'DOCUMENT_RESULT') {
+    throw new ApiError(0, 'Could not reload the document');
+  }
+  const { document } = refreshed;
+
+  // Prefer the ID from the response; fall back to the last tab with the name.
+  const tabs = document.documentContent.tabs ?? [];
+  const tab =
+    tabs.find((t) => created?.tab_id != null && t.tab_id === created.tab_id) ??
+    [...tabs].reverse().find((t) => t.tab_name === name);
+  if (!tab) {
+    throw new ApiError(0, 'The new tab was not found in the document');
+  }
+
+  return { type: 'TAB_CREATED', document, tabId: tab.tab_id };
+}
+
 /**
  * Basic SSRF guard: accept only http/https URLs that are not localhost or
  * private-range IPs. Blocks about:, file:, data: and other non-web schemes.
@@ -415,15 +520,208 @@ function isValidProductUrl(url: string): boolean {
   }
 }
 
+/**
+ * Fill in a product from the tab with the recipe saved for its site.
+ *
+ * Returns `null` — so the caller falls back to AI extraction — when no recipe
+ * exists, the script cannot be injected, or the recipe no longer finds the
+ * product name (the site's markup probably changed).
+ */
+async function extractWithRecipe(productUrl: string, tabId: number): Promise<ExtractedProductData | null> {
+  const recipe = findExtractionRecipe(await getExtractionRecipes(), productUrl);
+  if (!recipe) return null;
+
+  try {
+    const results = await browser.scripting.executeScript({
+      target: { tabId },
+      func: applyExtractionRecipe,
+      args: [recipe.fields],
+    });
+    const values = results[0]?.result as Record<string, string | null> | undefined;
+    if (!values?.productName) {
+      console.warn('[rerum-ext] Recipe for', recipe.origin, 'found no product name, using AI extraction');
+      return null;
+    }
+    console.debug('[rerum-ext] Product filled from recipe for', recipe.origin);
+    return toExtractedProductData({ ...values, productUrl });
+  } catch (err) {
+    console.warn('[rerum-ext] Recipe injection failed:', err);
+    return null;
+  }
+}
+
+/**
+ * Below this much page text (canvas configurators, image-only pages) a
+ * screenshot of the tab is sent along as visual context.
+ */
+const THIN_PAGE_TEXT_LENGTH = 500;
+
+/** Quiet period and upper bound of the wait for client-side rendering. */
+const DOM_SETTLE_QUIET_MS = 500;
+const DOM_SETTLE_TIMEOUT_MS = 5000;
+
+/** Tell the side panel which step an extraction of `tabId` has reached. */
+function broadcastExtractionProgress(tabId: number, step: ExtractionStep): void {
+  const broadcast: ExtractionProgressBroadcast = { type: 'EXTRACTION_PROGRESS', tabId, step };
+  browser.runtime.sendMessage(broadcast).catch(() => {
+    // No listener (Side Panel not open) — expected, ignore
+  });
+}
+
+/**
+ * Wait until the page has finished rendering its price (see
+ * `waitForDomSettle`), for at most a few seconds. A page the script cannot
+ * reach is captured right away; the capture reports the failure.
+ */
+async function waitForPageToSettle(tabId: number): Promise<void> {
+  broadcastExtractionProgress(tabId, 'waiting-for-page');
+  try {
+    const results = await browser.scripting.executeScript({
+      target: { tabId },
+      func: waitForDomSettle,
+      args: [DOM_SETTLE_QUIET_MS, DOM_SETTLE_TIMEOUT_MS],
+    });
+    const result = results[0]?.result as { settled: boolean; waitedMs: number } | undefined;
+    if (result && !result.settled) {
+      console.warn('[rerum-ext] Page still changing after', result.waitedMs, 'ms, capturing anyway');
+    }
+  } catch {
+    // Not injectable (e.g. a PDF in Firefox): nothing to wait for
+  }
+  broadcastExtractionProgress(tabId, 'analyzing');
+}
+
+/**
+ * Whether an injected extraction function ran in a PDF document — how a PDF
+ * served from a URL without `.pdf` is recognised, without a separate
+ * injection.
+ */
+function isPdfDocument(result: unknown): boolean {
+  return (result as { contentType?: unknown } | null | undefined)?.contentType === 'application/pdf';
+}
+
+/** Text of the PDF at `url`, with its metadata as the first section. */
+async function capturePdfContent(url: string): Promise<PageContent> {
+  let pdf;
+  try {
+    pdf = await extractPdfText(url);
+  } catch (err) {
+    console.warn('[rerum-ext] PDF text extraction failed:', err);
+    throw new ApiError(0, 'Could not read this PDF.');
+  }
+
+  const metadata = [
+    pdf.title ? `Title: ${pdf.title}` : null,
+    pdf.author ? `Author: ${pdf.author}` : null,
+    `Pages: ${pdf.pageCount}`,
+  ].filter(Boolean).join('\n');
+  return {
+    pageText: pdf.text ? `[PDF document]\n${metadata}\n\n${pdf.text}` : '',
+    images: [],
+    specs: [],
+  };
+}
+
+/**
+ * Capture the rendered text and images of every frame in the tab (product
+ * details are sometimes in an iframe) and merge them. Frames the extension
+ * cannot access are skipped; if the browser rejects the all-frames
+ * injection outright, only the top frame is captured. A PDF tab — by its
+ * `.pdf` URL, or the content type the capture reports — is read with the
+ * PDF reader instead.
+ */
+async function capturePageContent(tabId: number): Promise<PageContent> {
+  const tab = await browser.tabs.get(tabId);
+  if (tab.url && isPdfUrl(tab.url)) {
+    return capturePdfContent(tab.url);
+  }
+
+  let results;
+  try {
+    results = await browser.scripting.executeScript({
+      target: { tabId, allFrames: true },
+      func: extractPageContent,
+    });
+  } catch (err) {
+    console.warn('[rerum-ext] All-frames capture failed, using the top frame only:', err);
+    results = await browser.scripting.executeScript({
+      target: { tabId },
+      func: extractPageContent,
+    });
+  }
+  const top = results.find((frame) => frame.frameId === 0);
+  if (tab.url && isPdfDocument(top?.result)) {
+    return capturePdfContent(tab.url);
+  }
+  return mergePageContent(results);
+}
+
+/**
+ * Read the quantity and options the user has chosen next to the
+ * add-to-cart button. Empty when the page cannot be scripted.
+ */
+async function capturePageSelections(tabId: number): Promise<PageSelections> {
+  try {
+    const results = await browser.scripting.executeScript({
+      target: { tabId },
+      func: extractPageSelections,
+    });
+    return sanitizePageSelections(results[0]?.result);
+  } catch {
+    return { options: [] };
+  }
+}
+
+/**
+ * Read only the specification tables of every frame in the tab — for a
+ * product filled by a site recipe, whose specs still fill custom columns.
+ * Much cheaper than `capturePageContent`; empty when the page cannot be
+ * scripted.
+ */
+async function capturePageSpecs(tabId: number): Promise<ProductSpec[]> {
+  try {
+    const results = await browser.scripting.executeScript({
+      target: { tabId, allFrames: true },
+      func: extractPageContent,
+      args: [true],
+    });
+    return mergePageContent(results).specs;
+  } catch {
+    return [];
+  }
+}
+
 async function handleExtractProduct(
   productUrl: string,
   tabId?: number,
   documentUuid?: string,
+  skipRecipe = false,
 ): Promise<ExtensionResponse> {
   if (!isValidProductUrl(productUrl)) {
     throw new ApiError(400, 'Invalid product URL');
   }
 
+  // Prices and availability are often rendered after the load event.
+  if (tabId != null) {
+    await waitForPageToSettle(tabId);
+  }
+
+  // A size picked or a quantity typed on the page applies to this row.
+  const selections: PageSelections = tabId != null
+    ? await capturePageSelections(tabId)
+    : { options: [] };
+
+  // A saved recipe for this site fills the product locally and saves an AI
+  // autofill credit.
+  if (tabId != null && !skipRecipe) {
+    const recipeData = await extractWithRecipe(productUrl, tabId);
+    if (recipeData) {
+      // Specs still fill custom columns the recipe does not cover.
+      const specs = await capturePageSpecs(tabId);
+      return { type: 'EXTRACT_RESULT', data: recipeData, source: 'recipe', specs, selections };
+    }
+  }
+
   const params: Record<string, string> = {};
   if (documentUuid) {
     params.documentUuid = documentUuid;
@@ -433,17 +731,25 @@ async function handleExtractProduct(
   // Content script injection is required — the extension does not fall back
   // to URL-only server-side scraping because avoiding that is its core purpose.
   const requestBody: Record<string, unknown> = { productUrl };
+  let specs: ProductSpec[] = [];
   if (tabId != null) {
     try {
-      const results = await browser.scripting.executeScript({
-        target: { tabId },
-        func: extractPageContent,
-      });
-      const content = results[0]?.result as { pageText: string; images: Array<{ url: string; alt: string }> } | undefined;
-      if (content?.pageText) {
+      const content = await capturePageContent(tabId);
+      const visualContext = content.pageText.length < THIN_PAGE_TEXT_LENGTH
+        ? await captureTabScreenshot(tabId)
+        : null;
+      if (content.pageText || visualContext) {
         requestBody.pageText = content.pageText;
-        requestBody.images = content.images ?? [];
-        console.log('[rerum-ext] Page content captured for extraction:', content.pageText.length, 'chars,', (content.images ?? []).length, 'images');
+        requestBody.images = content.images;
+        requestBody.specs = content.specs;
+        specs = content.specs;
+        if (visualContext) {
+          requestBody.visualContext = visualContext;
+        }
+        if (selections.quantity != null || selections.options.length > 0) {
+          requestBody.selections = selections;
+        }
+        console.debug('[rerum-ext] Page content captured for extraction:', content.pageText.length, 'chars,', content.images.length, 'images,', specs.length, 'specs', visualContext ? '+ screenshot' : '');
       } else {
         throw new ApiError(0, 'Could not read page content. Try refreshing the page.');
       }
@@ -463,7 +769,7 @@ async function handleExtractProduct(
   );
 
   const data = toExtractedProductData(extraction);
-  return { type: 'EXTRACT_RESULT', data };
+  return { type: 'EXTRACT_RESULT', data, source: 'ai', specs, selections };
 }
 
 async function handleAddRowToDocument(
@@ -496,7 +802,146 @@ async function handleAddRowToDocument(
   return { type: 'ADD_ROW_RESULT', success: true };
 }
 
+/**
+ * Raise the quantity of the row that already holds `product` by `quantity`
+ * instead of adding a duplicate.
+ *
+ * The document is shared, so the side panel's copy may be out of date: the
+ * tab is re-fetched and the row found again (same GTIN, SKU or URL) before
+ * writing, and only its quantity is sent. Fails with `ROW_CHANGED` when no
+ * row matches any more.
+ *
+ * Rows have no ID, only their position, and another client may insert or
+ * remove a row between the GET and the PATCH. The PATCH therefore carries
+ * the row as it was read (`expected`); the API refuses it with 409 when the
+ * row at that position differs, which is reported as `ROW_CHANGED` too.
+ */
+async function handleIncreaseRowQuantity(
+  documentUuid: string,
+  tabId: string,
+  product: EstimateRecordApi,
+  quantity: number,
+): Promise<ExtensionResponse> {
+  let updatedQuantity: number;
+  try {
+    const document = await apiGet<EstimateDocumentDto>(`/document/${documentUuid}`);
+    const tab = (document.documentContent.tabs ?? []).find((t) => t.tab_id === tabId);
+    if (!tab) {
+      throw new ApiError(400, 'The tab no longer exists');
+    }
+    const match = findDuplicateRow(
+      tab.estimate_record_list,
+      product,
+      document.documentContent.column_definitions,
+      await getUrlStripRules(),
+    );
+    if (!match) {
+      throw new ApiError(409, 'The matching row was changed or removed', 'ROW_CHANGED');
+    }
+
+    updatedQuantity = (match.record.quantity ?? 1) + quantity;
+    const body: UpdateRowRequest = { quantity: updatedQuantity, expected: match.record };
+    await apiPatch<void>(`/document/${documentUuid}/tab/${tabId}/rows/${match.index}`, body);
+  } catch (err) {
+    if (err instanceof ApiError && err.status === 409) {
+      return {
+        type: 'UPDATE_ROW_RESULT',
+        success: false,
+        error: err.message,
+        status: err.status,
+        errorCode: 'ROW_CHANGED',
+      };
+    }
+    if (err instanceof ApiError) {
+      return {
+        type: 'UPDATE_ROW_RESULT',
+        success: false,
+        error: err.message,
+        status: err.status,
+        errorCode: err.errorCode,
+      };
+    }
+    throw err;
+  }
+
+  try {
+    await invalidateDocumentCache(documentUuid);
+  } catch (err) {
+    console.warn('[rerum-ext] Failed to invalidate document cache:', err);
+  }
+
+  return { type: 'UPDATE_ROW_RESULT', success: true, quantity: updatedQuantity };
+}
+
+/**
+ * Add several rows to a tab in one go (batch add from a listing page).
+ *
+ * The API accepts one row per request, so rows are posted sequentially to
+ * preserve their order. Stops at the first 401/403 (session expired, locked
+ * document or row limit reached) since every following row would fail too.
+ */
+async function handleAddRowsToDocument(
+  documentUuid: string,
+  tabId: string,
+  rows: EstimateRecordApi[],
+): Promise<ExtensionResponse> {
+  let added = 0;
+  let lastError: ApiError | null = null;
+
+  for (const row of rows) {
+    try {
+      await apiPost<void>(`/document/${documentUuid}/tab/${tabId}/rows`, row);
+      added++;
+    } catch (err) {
+      if (!(err instanceof ApiError)) throw err;
+      lastError = err;
+      if (err.status === 401 || err.status === 403) break;
+    }
+  }
+
+  if (added > 0) {
+    try {
+      await invalidateDocumentCache(documentUuid);
+    } catch (err) {
+      console.warn('[rerum-ext] Failed to invalidate document cache:', err);
+    }
+  }
+
+  return {
+    type: 'ADD_ROWS_RESULT',
+    added,
+    failed: rows.length - added,
+    error: lastError?.message,
+    status: lastError?.status,
+    errorCode: lastError?.errorCode,
+  };
+}
+
+/**
+ * Page data of a PDF tab: there is no DOM to read, so the title is the file
+ * name and there are no images or hints. Page data is read on every tab
+ * switch and navigation; the file itself is only downloaded and parsed when
+ * the user extracts the product (see `capturePdfContent`).
+ */
+async function extractPdfPageData(url: string): Promise<ExtensionResponse> {
+  const title = pdfFileName(url);
+  const pageData = sanitizePageData({ url, title, images: [], hints: {} }, await getUrlStripRules());
+  if (!pageData) {
+    return {
+      type: 'ERROR',
+      status: 0,
+      error: 'Could not extract page data from this tab',
+    };
+  }
+  return { type: 'PAGE_DATA_RESULT', pageData };
+}
+
 async function handleExtractPageData(tabId: number): Promise<ExtensionResponse> {
+  const tab = await browser.tabs.get(tabId).catch(() => null);
+  if (tab?.url && isPdfUrl(tab.url)) {
+    return extractPdfPageData(tab.url);
+  }
+
   // Inject the self-contained extraction function into the active tab.
   // This can fail on pages where the extension lacks host permissions
   // (e.g. arbitrary product pages) — return a clean error so the side
@@ -516,7 +961,10 @@ async function handleExtractPageData(tabId: number): Promise<ExtensionResponse>
   }
 
   const rawResult = results[0]?.result as unknown;
-  const pageData = sanitizePageData(rawResult);
+  if (tab?.url && isPdfDocument(rawResult)) {
+    return extractPdfPageData(tab.url);
+  }
+  const pageData = sanitizePageData(rawResult, await getUrlStripRules());
 
   if (!pageData) {
     return {
@@ -529,6 +977,103 @@ async function handleExtractPageData(tabId: number): Promise<ExtensionResponse>
   return { type: 'PAGE_DATA_RESULT', pageData };
 }
 
+/**
+ * Let the user click an element on the page. Resolves once they click (with
+ * its text and selector) or cancel with Esc (`picked: null`).
+ */
+async function handlePickElement(tabId: number, hint: string): Promise<ExtensionResponse> {
+  let results;
+  try {
+    results = await browser.scripting.executeScript({
+      target: { tabId },
+      func: pickPageElement,
+      args: [hint],
+    });
+  } catch {
+    throw new ApiError(0, 'No permission to access this page');
+  }
+
+  const raw = results[0]?.result as Partial<PickedElement> | null | undefined;
+  const picked: PickedElement | null =
+    raw && typeof raw.text === 'string' && typeof raw.selector === 'string'
+      ? { text: raw.text, selector: raw.selector, attribute: typeof raw.attribute === 'string' ? raw.attribute : undefined }
+      : null;
+  return { type: 'PICK_ELEMENT_RESULT', picked };
+}
+
+async function handleCancelPickElement(tabId: number): Promise<ExtensionResponse> {
+  try {
+    await browser.scripting.executeScript({ target: { tabId }, func: cancelElementPicker });
+  } catch {
+    // Tab closed or navigated away: nothing left to cancel
+  }
+  return { type: 'PICK_CANCELLED' };
+}
+
+/**
+ * Whether a `scripting.executeScript` error means the extension may not
+ * script the page (no host access, browser-internal or store pages).
+ */
+function isScriptingPermissionError(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err);
+  return /cannot access|cannot be scripted|permission/i.test(message);
+}
+
+/**
+ * Capture what the supplier page showed for the price — a screenshot cropped
+ * around the price element — and store it with the document, so a row can
+ * point at the evidence it was quoted from.
+ *
+ * Fails when the tab no longer shows `pageUrl`, the page the product was
+ * extracted from: a screenshot of another page proves nothing.
+ */
+async function handleUploadPriceEvidence(
+  documentUuid: string,
+  tabId: number,
+  pageUrl: string,
+  productUrl: string | null,
+  price: string | null,
+  currency: string | null,
+): Promise<ExtensionResponse> {
+  const capturedAt = new Date().toISOString();
+
+  const tab = await browser.tabs.get(tabId);
+  if (!tab.url || !isSameDocumentUrl(tab.url, pageUrl)) {
+    throw new ApiError(0, 'The tab no longer shows the product page.');
+  }
+
+  // Without a price element the whole viewport is kept.
+  let region: CaptureRegion | undefined;
+  try {
+    const results = await browser.scripting.executeScript({
+      target: { tabId },
+      func: locatePriceRegion,
+      args: [price],
+    });
+    region = (results[0]?.result as CaptureRegion | null | undefined) ?? undefined;
+  } catch (err) {
+    if (isScriptingPermissionError(err)) {
+      throw new ApiError(0, 'No permission to access this page', 'HOST_PERMISSION_REQUIRED');
+    }
+    throw err;
+  }
+
+  const image = await captureTabScreenshot(tabId, region);
+  if (!image) {
+    throw new ApiError(0, 'Could not capture the page.');
+  }
+
+  const body: PriceEvidenceRequest = { productUrl, price, currency, capturedAt, image };
+  const evidence = await apiPost<PriceEvidenceResponse>(`/document/${documentUuid}/evidence`, body);
+  return { type: 'PRICE_EVIDENCE_RESULT', evidenceUuid: evidence.uuid, capturedAt };
+}
+
+/** Remove price evidence that no row points at (the row could not be added). */
+async function handleDeletePriceEvidence(documentUuid: string, evidenceUuid: string): Promise<ExtensionResponse> {
+  await apiDelete<void>(`/document/${documentUuid}/evidence/${evidenceUuid}`);
+  return { type: 'PRICE_EVIDENCE_DELETED' };
+}
+
 async function handleFetchUsage(): Promise<ExtensionResponse> {
   const usage = await apiGet<UsageDto>('/subscription/usage');
   return { type: 'USAGE_RESULT', usage };
@@ -558,6 +1103,125 @@ async function handleGetActiveTab(): Promise<ExtensionResponse> {
   }
 }
 
+// ---------------------------------------------------------------------------
+// Panel actions (context menu, keyboard shortcuts)
+// ---------------------------------------------------------------------------
+
+const CONTEXT_MENU_ADD_PAGE = 'rerum-add-page';
+const CONTEXT_MENU_ADD_LINK = 'rerum-add-link';
+const CONTEXT_MENU_USE_IMAGE = 'rerum-use-image';
+
+/** How long to wait for a linked page to load in its background tab. */
+const LINKED_PAGE_TIMEOUT_MS = 30_000;
+
+/**
+ * Send an action to the Side Panel. The action is also stored in session
+ * storage so a panel that is still opening can pick it up on mount.
+ */
+async function dispatchPanelAction(action: PanelAction): Promise<void> {
+  const broadcast: PanelActionBroadcast = {
+    type: 'PANEL_ACTION',
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    action,
+  };
+  await setSessionValue('pendingPanelAction', broadcast).catch(() => {});
+  browser.runtime.sendMessage(broadcast).catch(() => {
+    // Side Panel not open (yet) -- it reads the pending action on mount
+  });
+}
+
+/**
+ * Resolve once a tab has finished loading. Rejects with an ApiError when the
+ * tab does not complete within `timeoutMs` or is closed.
+ */
+function waitForTabComplete(tabId: number, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onUpdated = (updatedTabId: number, changeInfo: { status?: string }) => {
+      if (updatedTabId === tabId && changeInfo.status === 'complete') finish();
+    };
+    const timer = setTimeout(() => finish(new ApiError(0, 'The linked page took too long to load.')), timeoutMs);
+    function finish(err?: ApiError) {
+      clearTimeout(timer);
+      browser.tabs.onUpdated.removeListener(onUpdated);
+      if (err) reject(err);
+      else resolve();
+    }
+
+    browser.tabs.onUpdated.addListener(onUpdated);
+    // The tab may have completed before the listener was attached.
+    browser.tabs.get(tabId)
+      .then((tab) => {
+        if (tab.status === 'complete') finish();
+      })
+      .catch(() => finish(new ApiError(0, 'The linked page was closed before it loaded.')));
+  });
+}
+
+/**
+ * Extract the product behind a link without navigating away: open the link
+ * in a background tab, run the same pipeline as the Side Panel (page data,
+ * then EXTRACT_PRODUCT), close the tab and hand the result to the panel.
+ */
+async function extractLinkedProduct(url: string, windowId?: number): Promise<void> {
+  let tabId: number | undefined;
+  try {
+    if (!isValidProductUrl(url)) {
+      throw new ApiError(400, 'Invalid product URL');
+    }
+    // activeTab does not cover the new tab; site access must already be granted.
+    if (!await hasHostPermissionFor(url)) {
+      throw new ApiError(0, 'No permission to access this site.', 'HOST_PERMISSION_REQUIRED');
+    }
+
+    const tab = await browser.tabs.create({ url, active: false, windowId });
+    tabId = tab.id;
+    if (tabId == null) {
+      throw new ApiError(0, 'Could not open the linked page.');
+    }
+    // Sent once the tab exists, so the panel can follow the progress of
+    // this tab's extraction.
+    await dispatchPanelAction({ kind: 'link-extracting', url, tabId });
+    await waitForTabComplete(tabId, LINKED_PAGE_TIMEOUT_MS);
+
+    const pageDataResponse = await handleExtractPageData(tabId);
+    const pageData = pageDataResponse.type === 'PAGE_DATA_RESULT'
+      ? pageDataResponse.pageData
+      : { url, title: url, images: [], hints: {}, confidence: 'low' as const };
+
+    const documentUuid = await getLocalValue('lastDocumentUuid');
+    const response = await handleExtractProduct(pageData.url, tabId, documentUuid);
+    if (response.type !== 'EXTRACT_RESULT') {
+      throw new ApiError(0, 'Unexpected response from extraction');
+    }
+
+    await dispatchPanelAction({
+      kind: 'link-extracted',
+      url,
+      pageData,
+      data: response.data,
+      source: response.source,
+      specs: response.specs,
+      selections: response.selections,
+    });
+  } catch (err) {
+    console.warn('[rerum-ext] Linked product extraction failed:', err);
+    await dispatchPanelAction({
+      kind: 'link-failed',
+      url,
+      status: err instanceof ApiError ? err.status : 0,
+      error: err instanceof Error ? err.message : 'An unexpected error occurred',
+      errorCode: err instanceof ApiError ? err.errorCode : undefined,
+    });
+  } finally {
+    if (tabId != null) {
+      browser.tabs.remove(tabId).catch(() => {
+        // Tab already closed by the user
+      });
+    }
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Background Service Worker entry point
 // ---------------------------------------------------------------------------
@@ -611,7 +1275,7 @@ export default defineBackground(() => {
       // not part of the request/response protocol.  They are handled by
       // dedicated listeners in the Side Panel.
       const knownType = (msg as { type?: string })?.type;
-      if (knownType === 'AUTH_STATE_CHANGED') {
+      if (knownType && BROADCAST_TYPES.has(knownType)) {
         sendResponse({ type: 'LOGOUT_RESULT' }); // no-op ack
         return true;
       }
@@ -639,11 +1303,20 @@ export default defineBackground(() => {
               response = await handleFetchDocument(msg.documentUuid);
               break;
 
+            case 'CREATE_DOCUMENT':
+              response = await handleCreateDocument(msg.documentName);
+              break;
+
+            case 'CREATE_TAB':
+              response = await handleCreateTab(msg.documentUuid, msg.tabName);
+              break;
+
             case 'EXTRACT_PRODUCT':
               response = await handleExtractProduct(
                 msg.productUrl,
                 msg.tabId,
                 msg.documentUuid,
+                msg.skipRecipe,
               );
               break;
 
@@ -655,10 +1328,50 @@ export default defineBackground(() => {
               );
               break;
 
+            case 'ADD_ROWS_TO_DOCUMENT':
+              response = await handleAddRowsToDocument(
+                msg.documentUuid,
+                msg.tabId,
+                msg.rows,
+              );
+              break;
+
+            case 'INCREASE_ROW_QUANTITY':
+              response = await handleIncreaseRowQuantity(
+                msg.documentUuid,
+                msg.tabId,
+                msg.product,
+                msg.quantity,
+              );
+              break;
+
             case 'EXTRACT_PAGE_DATA':
               response = await handleExtractPageData(msg.tabId);
               break;
 
+            case 'PICK_ELEMENT':
+              response = await handlePickElement(msg.tabId, msg.hint);
+              break;
+
+            case 'CANCEL_PICK_ELEMENT':
+              response = await handleCancelPickElement(msg.tabId);
+              break;
+
+            case 'UPLOAD_PRICE_EVIDENCE':
+              response = await handleUploadPriceEvidence(
+                msg.documentUuid,
+                msg.tabId,
+                msg.pageUrl,
+                msg.productUrl,
+                msg.price,
+                msg.currency,
+              );
+              break;
+
+            case 'DELETE_PRICE_EVIDENCE':
+              response = await handleDeletePriceEvidence(msg.documentUuid, msg.evidenceUuid);
+              break;
+
             case 'FETCH_USAGE':
               response = await handleFetchUsage();
               break;
@@ -667,6 +1380,12 @@ export default defineBackground(() => {
               response = await handleGetActiveTab();
               break;
 
+            case 'EXTRACT_LINKED_PRODUCT':
+              // Runs on after the reply, like the context-menu entry.
+              void extractLinkedProduct(msg.url);
+              response = { type: 'LINK_EXTRACTION_STARTED' };
+              break;
+
             case 'LOGOUT':
               response = await handleLogout();
               break;
@@ -771,6 +1490,32 @@ export default defineBackground(() => {
     }
   });
 
+  // Single-page shops switch products with history.pushState, so the tab
+  // never completes a new load. Wait for the new product to render, then
+  // refresh the badge and let the side panel re-read the page.
+  const SAME_DOCUMENT_NAVIGATION_SETTLE_MS = 1000;
+  const sameDocumentNavigationTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+  const handleSameDocumentNavigation = (details: { tabId: number; frameId: number; url: string }) => {
+    if (details.frameId !== 0) return;
+    clearTimeout(sameDocumentNavigationTimers.get(details.tabId));
+    sameDocumentNavigationTimers.set(details.tabId, setTimeout(() => {
+      sameDocumentNavigationTimers.delete(details.tabId);
+      updateBadgeForTab(details.tabId).catch(() => {
+        // Non-critical
+      });
+      const broadcast: PageNavigatedBroadcast = { type: 'PAGE_NAVIGATED', tabId: details.tabId, url: details.url };
+      browser.runtime.sendMessage(broadcast).catch(() => {
+        // No listener (Side Panel not open) — expected, ignore
+      });
+    }, SAME_DOCUMENT_NAVIGATION_SETTLE_MS));
+  };
+
+  if (browser.webNavigation) {
+    browser.webNavigation.onHistoryStateUpdated.addListener(handleSameDocumentNavigation);
+    browser.webNavigation.onReferenceFragmentUpdated.addListener(handleSameDocumentNavigation);
+  }
+
   // When the user grants a new host permission (via Extract on a site),
   // update badges for any open tabs on that origin.
   if (browser.permissions?.onAdded) {
@@ -864,7 +1609,92 @@ export default defineBackground(() => {
   });
 
   // -----------------------------------------------------------------------
-  // 6. CSRF TOKEN PRE-FETCH
+  // 6. CONTEXT MENUS
+  // -----------------------------------------------------------------------
+
+  // Menu entries persist across SW restarts; (re)create them on install/update.
+  // Titles come from public/_locales, in the browser's language.
+  browser.runtime.onInstalled.addListener(() => {
+    browser.contextMenus
+      .removeAll()
+      .then(() => {
+        browser.contextMenus.create({
+          id: CONTEXT_MENU_ADD_PAGE,
+          title: browser.i18n.getMessage('contextMenuAddPage'),
+          contexts: ['page'],
+        });
+        browser.contextMenus.create({
+          id: CONTEXT_MENU_ADD_LINK,
+          title: browser.i18n.getMessage('contextMenuAddLink'),
+          contexts: ['link'],
+        });
+        browser.contextMenus.create({
+          id: CONTEXT_MENU_USE_IMAGE,
+          title: browser.i18n.getMessage('contextMenuUseImage'),
+          contexts: ['image'],
+        });
+      })
+      .catch((err: unknown) => {
+        console.warn('[rerum-ext] Failed to create context menus:', err);
+      });
+  });
+
+  browser.contextMenus.onClicked.addListener((info, tab) => {
+    // Open the panel first: sidePanel.open() is only allowed while the
+    // click's user gesture is still active.
+    if (tab?.windowId != null && sidePanel?.open) {
+      sidePanel.open({ windowId: tab.windowId }).catch((err: unknown) => {
+        console.warn('[rerum-ext] Failed to open side panel:', err);
+      });
+    }
+
+    switch (info.menuItemId) {
+      case CONTEXT_MENU_ADD_PAGE:
+        void dispatchPanelAction({ kind: 'extract-page' });
+        break;
+
+      case CONTEXT_MENU_ADD_LINK:
+        if (info.linkUrl) {
+          void extractLinkedProduct(info.linkUrl, tab?.windowId);
+        }
+        break;
+
+      case CONTEXT_MENU_USE_IMAGE:
+        if (info.srcUrl) {
+          void dispatchPanelAction({ kind: 'use-image', imageUrl: info.srcUrl });
+        }
+        break;
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 7. KEYBOARD SHORTCUTS
+  // -----------------------------------------------------------------------
+
+  // Commands are declared in the manifest (wxt.config.ts). All of them open
+  // the side panel, which then carries out the action through its state
+  // machine (e.g. "add-to-estimate" only acts while a preview is showing).
+  browser.commands.onCommand.addListener((command, tab) => {
+    // sidePanel.open() must run within the shortcut's user gesture.
+    if (tab?.windowId != null && sidePanel?.open) {
+      sidePanel.open({ windowId: tab.windowId }).catch((err: unknown) => {
+        console.warn('[rerum-ext] Failed to open side panel:', err);
+      });
+    }
+
+    switch (command) {
+      case 'extract-product':
+        void dispatchPanelAction({ kind: 'extract-page' });
+        break;
+
+      case 'add-to-estimate':
+        void dispatchPanelAction({ kind: 'add-to-estimate' });
+        break;
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // 8. CSRF TOKEN PRE-FETCH
   // -----------------------------------------------------------------------
 
   // Pre-fetch the CSRF token at SW startup so the first mutating API call
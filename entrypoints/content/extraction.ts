@@ -6,34 +6,390 @@
  * with NO access to extension APIs, imports, or closures. Everything it needs
  * must be defined inline.
  *
- * Returns rendered page text (truncated to 100 KB) and images with alt text
- * (capped at 50) for sending to the backend instead of server-side scraping.
+ * Returns the frame's URL and content type, its page text (truncated to
+ * 100 KB) and images with alt text (capped at 50) for sending to the backend
+ * instead of server-side scraping. Rather than the whole `innerText`, the text is built
+ * in order of usefulness:
+ *
+ * 1. Product JSON-LD, compacted.
+ * 2. Specification blocks (spec tables, definition lists, "parameters"
+ *    sections), including ones hidden in inactive tabs.
+ * 3. The visible text of the product region — the smallest container holding
+ *    the page heading and its price — with navigation, footers, sidebars,
+ *    cookie banners and modals left out. The whole filtered page is used when
+ *    no product region is found.
+ *
+ * The specification blocks are also returned as `specs` key/value pairs
+ * (two-cell table rows, `<dt>`/`<dd>` pairs and "Label: value" list items).
+ * With `specsOnly`, only those are read and the text and images are left
+ * empty — for a product filled by a site recipe, which needs no page text.
+ *
+ * Open shadow roots (web components) are included. It is injected into every
+ * frame of the tab; the background merges the per-frame results.
+ *
+ * Each `<img>` is sent as the best URL it offers, chosen the same way as the
+ * images `extractPageData` shows in the image selector: srcset and
+ * `<picture>` sources; the zoom / full-size attributes `data-zoom-image`,
+ * `data-large_image`, `data-large` and `data-full` (preferred over any
+ * width); the lazy-loading attributes `data-src`, `data-lazy-src`,
+ * `data-lazy` and `data-original`; then the loaded source. Placeholder files
+ * (blank, spacer, placeholder, transparent, pixel, lazyload… as
+ * GIF/PNG/SVG) are skipped. Both functions must be self-contained, so each
+ * holds a copy of these lists — change them together.
  */
-export function extractPageContent(): {
+export function extractPageContent(specsOnly = false): {
+  url: string;
+  contentType: string;
   pageText: string;
   images: Array<{ url: string; alt: string }>;
+  specs: Array<{ key: string; value: string }>;
 } {
   const MAX_TEXT_BYTES = 100_000;
   const MAX_IMAGES = 50;
+  const MAX_STRUCTURED_LENGTH = 15_000;
+  const MAX_SPECS_LENGTH = 30_000;
+  const MAX_SPEC_PAIRS = 200;
+  /** A product region smaller than this is widened to its parent. */
+  const MIN_REGION_TEXT = 1_500;
+  /** ...unless the parent is this large (most likely the whole page). */
+  const MAX_REGION_TEXT = 60_000;
+
+  const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'IFRAME', 'CANVAS', 'SVG']);
+  const BLOCK_TAGS = new Set([
+    'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'BR', 'DIV', 'DL', 'DT', 'FIELDSET', 'FIGCAPTION',
+    'FIGURE', 'FORM', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'OL', 'P',
+    'PRE', 'SECTION', 'TABLE', 'TR', 'UL',
+  ]);
+  const NOISE_SELECTOR =
+    'nav, footer, aside, dialog, [role="navigation"], [role="banner"], [role="contentinfo"], ' +
+    '[role="dialog"], [role="alertdialog"], [aria-modal="true"]';
+  const NOISE_NAME =
+    /(^|[-_\s])(cookies?|consent|gdpr|newsletter|modal|popup|overlay|mega-?menu|menu|breadcrumbs?|footer|sidebar)([-_\s]|$)/i;
+  const SPEC_NAME = /(spec|parameters|parametry|specyfikacja|technical|tech-?data|dane-techniczne|attributes|properties)/i;
+
+  // -------------------------------------------------------------------------
+  // Helpers
+  // -------------------------------------------------------------------------
+
+  const heading = Array.from(document.querySelectorAll('h1')).find((h) => h.textContent?.trim()) ?? null;
+
+  function nameOf(el: Element): string {
+    return `${el.id} ${el.getAttribute('class') ?? ''}`;
+  }
+
+  // Site chrome and overlays. Never the element holding the page heading.
+  function isNoise(el: Element): boolean {
+    if (heading && el.contains(heading)) return false;
+    if (el.matches(NOISE_SELECTOR)) return true;
+    if (el.tagName === 'HEADER' && !el.closest('main, article')) return true;
+    return NOISE_NAME.test(nameOf(el));
+  }
+
+  function hasNoiseAncestor(el: Element): boolean {
+    for (let node: Element | null = el; node && node !== document.body; node = node.parentElement) {
+      if (isNoise(node)) return true;
+    }
+    return false;
+  }
+
+  function isHidden(el: Element): boolean {
+    const style = getComputedStyle(el);
+    return style.display === 'none' || style.visibility === 'hidden';
+  }
+
+  function textLength(el: Element): number {
+    return (el.textContent ?? '').length;
+  }
+
+  // Walk `node` (and open shadow roots) appending text to `out`, one block
+  // element per line. Table cells and definitions become "label: value".
+  function appendText(
+    node: Node,
+    out: { parts: string[]; length: number; limit: number },
+    includeHidden: boolean,
+    skip: Set<Element>,
+  ): void {
+    if (out.length >= out.limit) return;
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = (node.textContent ?? '').replace(/\s+/g, ' ');
+      if (text.trim()) {
+        out.parts.push(text);
+        out.length += text.length;
+      }
+      return;
+    }
+    if (!(node instanceof Element)) return;
+
+    const tag = node.tagName.toUpperCase();
+    if (SKIPPED_TAGS.has(tag) || skip.has(node) || isNoise(node)) return;
+    if (!includeHidden && isHidden(node)) return;
+
+    const block = BLOCK_TAGS.has(tag);
+    if (block) out.parts.push('\n');
+    if ((tag === 'TD' || tag === 'TH') && node.previousElementSibling) out.parts.push(': ');
+    if (tag === 'DD') out.parts.push(': ');
 
-  // Capture rendered text from the visible DOM
-  let pageText = document.body.innerText ?? '';
+    if (node.shadowRoot) appendChildren(node.shadowRoot, out, includeHidden, skip);
+    appendChildren(node, out, includeHidden, skip);
+    if (block) out.parts.push('\n');
+  }
+
+  function appendChildren(
+    parent: Node,
+    out: { parts: string[]; length: number; limit: number },
+    includeHidden: boolean,
+    skip: Set<Element>,
+  ): void {
+    parent.childNodes.forEach((child) => appendText(child, out, includeHidden, skip));
+  }
+
+  function textOf(root: Element, includeHidden: boolean, skip: Set<Element>, limit: number): string {
+    const out = { parts: [] as string[], length: 0, limit };
+    if (root.shadowRoot) appendChildren(root.shadowRoot, out, includeHidden, skip);
+    appendChildren(root, out, includeHidden, skip);
+    return out.parts
+      .join('')
+      .split('\n')
+      .map((line) => line.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .join('\n')
+      .slice(0, limit);
+  }
+
+  // -------------------------------------------------------------------------
+  // Sections
+  // -------------------------------------------------------------------------
+
+  // Product-related JSON-LD blocks, re-serialised without whitespace.
+  function extractStructuredData(): string {
+    const blocks: string[] = [];
+    document.querySelectorAll('script[type="application/ld+json"]').forEach((script) => {
+      const raw = script.textContent?.trim();
+      if (!raw) return;
+      try {
+        const json = JSON.stringify(JSON.parse(raw));
+        if (/"(Product|ProductGroup|Offer|AggregateOffer)"/.test(json)) blocks.push(json);
+      } catch {
+        // Invalid JSON-LD
+      }
+    });
+    return blocks.join('\n').slice(0, MAX_STRUCTURED_LENGTH);
+  }
+
+  // Outermost spec containers, in document order.
+  function findSpecBlocks(): Element[] {
+    const blocks: Element[] = [];
+    document.body?.querySelectorAll('table, dl, [id], [class]').forEach((el) => {
+      if (blocks.some((block) => block.contains(el))) return;
+      let isSpec: boolean;
+      if (el.tagName === 'TABLE') {
+        const rows = (el as HTMLTableElement).rows;
+        isSpec = rows.length >= 2 && (rows[0]?.cells.length ?? 0) <= 4;
+      } else if (el.tagName === 'DL') {
+        isSpec = el.querySelectorAll('dt').length >= 2;
+      } else {
+        isSpec = SPEC_NAME.test(nameOf(el)) && textLength(el) > 40;
+      }
+      if (isSpec && !hasNoiseAncestor(el)) blocks.push(el);
+    });
+    return blocks;
+  }
+
+  // Key/value pairs of the spec blocks; the first value of a key wins.
+  function extractSpecPairs(blocks: Element[]): Array<{ key: string; value: string }> {
+    const pairs: Array<{ key: string; value: string }> = [];
+    const keys = new Set<string>();
+    const clean = (el: Element) => (el.textContent ?? '').replace(/\s+/g, ' ').trim();
+    const add = (rawKey: string, rawValue: string) => {
+      const key = rawKey.replace(/:\s*$/, '').trim().slice(0, 200);
+      const value = rawValue.trim().slice(0, 1000);
+      if (!key || !value || keys.has(key.toLowerCase()) || pairs.length >= MAX_SPEC_PAIRS) return;
+      keys.add(key.toLowerCase());
+      pairs.push({ key, value });
+    };
+
+    for (const block of blocks) {
+      block.querySelectorAll('tr').forEach((row) => {
+        const cells = Array.from(row.children).filter((c) => c.tagName === 'TH' || c.tagName === 'TD');
+        if (cells.length === 2 && cells[0] && cells[1]) add(clean(cells[0]), clean(cells[1]));
+      });
+      block.querySelectorAll('dt').forEach((dt) => {
+        const dd = dt.nextElementSibling;
+        if (dd?.tagName === 'DD') add(clean(dt), clean(dd));
+      });
+      block.querySelectorAll('li').forEach((li) => {
+        const match = clean(li).match(/^([^:]{1,80}):\s*(.+)$/);
+        if (match?.[1] && match[2]) add(match[1], match[2]);
+      });
+    }
+    return pairs;
+  }
+
+  // Smallest container holding the heading and the price nearest to it,
+  // widened until it has a meaningful amount of text.
+  function findProductRegion(): Element | null {
+    const body = document.body;
+    if (!body) return null;
+
+    let region: Element | null = null;
+    if (heading) {
+      const prices = Array.from(
+        document.querySelectorAll('[itemprop="price"], [class*="price" i], [id*="price" i]'),
+      )
+        .filter((el) => /\d/.test(el.textContent ?? '') && !hasNoiseAncestor(el))
+        .slice(0, 20);
+      let bestDepth = -1;
+      for (const price of prices) {
+        let ancestor: Element | null = heading;
+        while (ancestor && !ancestor.contains(price)) ancestor = ancestor.parentElement;
+        let depth = 0;
+        for (let node = ancestor; node; node = node.parentElement) depth++;
+        if (ancestor && depth > bestDepth) {
+          bestDepth = depth;
+          region = ancestor;
+        }
+      }
+      region ??= heading;
+    }
+    region ??= document.querySelector('main, [role="main"], article');
+    if (!region) return null;
+
+    while (region !== body && region.parentElement && textLength(region) < MIN_REGION_TEXT) {
+      const parent: Element = region.parentElement;
+      if (textLength(parent) > MAX_REGION_TEXT) break;
+      region = parent;
+    }
+    return region === body ? null : region;
+  }
+
+  // -------------------------------------------------------------------------
+  // Assemble
+  // -------------------------------------------------------------------------
+
+  const specBlocks = findSpecBlocks();
+  const specs = extractSpecPairs(specBlocks);
+  if (specsOnly) {
+    return { url: document.location.href, contentType: document.contentType, pageText: '', images: [], specs };
+  }
+
+  const structured = extractStructuredData();
+  const specsText = specBlocks
+    .map((block) => textOf(block, true, new Set(), MAX_SPECS_LENGTH))
+    .filter(Boolean)
+    .join('\n\n')
+    .slice(0, MAX_SPECS_LENGTH);
+
+  const skip = new Set(specBlocks);
+  const region = findProductRegion();
+  let mainText = region ? textOf(region, false, skip, MAX_TEXT_BYTES) : '';
+  if (mainText.length < MIN_REGION_TEXT && document.body) {
+    mainText = textOf(document.body, false, skip, MAX_TEXT_BYTES);
+  }
+
+  let pageText = [
+    structured && `[Structured data]\n${structured}`,
+    specsText && `[Specifications]\n${specsText}`,
+    mainText && `[Main content]\n${mainText}`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+  // Everything was filtered out: fall back to the raw rendered text
+  if (!pageText) pageText = document.body?.innerText ?? '';
   if (pageText.length > MAX_TEXT_BYTES) {
     pageText = pageText.slice(0, MAX_TEXT_BYTES);
   }
 
-  // Collect images that have meaningful alt text (most useful for AI)
-  const images: Array<{ url: string; alt: string }> = [];
-  document.querySelectorAll('img').forEach((img) => {
-    if (images.length >= MAX_IMAGES) return;
-    const src = img.src;
-    const alt = (img.alt ?? '').trim();
-    if (src && src.startsWith('http') && alt) {
-      images.push({ url: src, alt });
+  // Open shadow roots, depth-first (closed ones are unreachable).
+  const shadowRoots: ShadowRoot[] = [];
+  const collectShadowRoots = (root: Document | ShadowRoot) => {
+    root.querySelectorAll('*').forEach((el) => {
+      if (el.shadowRoot) {
+        shadowRoots.push(el.shadowRoot);
+        collectShadowRoots(el.shadowRoot);
+      }
+    });
+  };
+  collectShadowRoots(document);
+
+  // Highest-resolution URL an <img> can show: srcset and <picture> sources,
+  // zoom / lazy-loading attributes, then the loaded source. Picked like
+  // `bestImageSource` in extractPageData, with the same lists.
+  const LAZY_IMAGE_ATTRIBUTES = [
+    'data-zoom-image', 'data-large_image', 'data-large', 'data-full', 'data-src',
+    'data-lazy-src', 'data-lazy', 'data-original',
+  ];
+  const PLACEHOLDER_IMAGE = /(blank|spacer|placeholder|transparent|pixel|lazy[-_]?load\w*)\.(gif|png|svg)/i;
+  const toAbsolute = (value: string | null | undefined): string | null => {
+    if (!value) return null;
+    try {
+      const url = new URL(value, document.baseURI).href;
+      return url.startsWith('http') ? url : null;
+    } catch {
+      return null;
+    }
+  };
+  const bestImageUrl = (img: HTMLImageElement): string | null => {
+    const rendered = img.width || img.clientWidth;
+    const candidates: Array<{ url: string; width: number; fullSize?: boolean }> = [];
+    const srcsets = [img.getAttribute('srcset'), img.getAttribute('data-srcset')];
+    img.closest('picture')?.querySelectorAll('source').forEach((source) => {
+      srcsets.push(source.getAttribute('srcset'), source.getAttribute('data-srcset'));
+    });
+    for (const srcset of srcsets) {
+      for (const entry of (srcset ?? '').split(/,\s+/)) {
+        const [rawUrl, descriptor = ''] = entry.trim().split(/\s+/);
+        const url = toAbsolute(rawUrl);
+        if (!url) continue;
+        const w = /^(\d+)w$/.exec(descriptor);
+        const x = /^([\d.]+)x$/.exec(descriptor);
+        candidates.push({ url, width: w ? Number(w[1]) : x ? Number(x[1]) * (rendered || 100) : rendered });
+      }
+    }
+    LAZY_IMAGE_ATTRIBUTES.forEach((attr, i) => {
+      const url = toAbsolute(img.getAttribute(attr));
+      // The first four name zoom / full-size images.
+      if (url) candidates.push({ url, width: i < 4 ? 0 : img.naturalWidth || rendered, fullSize: i < 4 });
+    });
+    for (const src of [img.currentSrc, img.src]) {
+      const url = toAbsolute(src);
+      if (url) candidates.push({ url, width: img.naturalWidth || rendered });
     }
-  });
 
-  return { pageText, images };
+    let best: (typeof candidates)[number] | null = null;
+    for (const candidate of candidates) {
+      if (PLACEHOLDER_IMAGE.test(candidate.url)) continue;
+      if (
+        !best ||
+        (candidate.fullSize && !best.fullSize) ||
+        (!!candidate.fullSize === !!best.fullSize && candidate.width > best.width)
+      ) {
+        best = candidate;
+      }
+    }
+    return best?.url ?? null;
+  };
+
+  // Collect images (alt text helps the AI but is not required): product
+  // region first, site chrome (logos, menus) last. Icons that loaded smaller
+  // than 50px are skipped.
+  const images: Array<{ url: string; alt: string }> = [];
+  const chromeImages: Array<{ url: string; alt: string }> = [];
+  const seen = new Set<string>();
+  for (const root of [...(region ? [region] : []), document, ...shadowRoots]) {
+    root.querySelectorAll('img').forEach((img) => {
+      if (img.naturalWidth && img.naturalWidth < 50 && img.naturalHeight < 50) return;
+      const url = bestImageUrl(img);
+      if (url && !seen.has(url)) {
+        seen.add(url);
+        const isChrome = !!img.closest('nav, footer, header, aside, [role="banner"], [role="contentinfo"]');
+        (isChrome ? chromeImages : images).push({ url, alt: (img.alt || img.title || '').trim() });
+      }
+    });
+  }
+  images.push(...chromeImages);
+  images.splice(MAX_IMAGES);
+
+  return { url: document.location.href, contentType: document.contentType, pageText, images, specs };
 }
 
 /**
@@ -44,40 +400,305 @@ export function extractPageContent(): {
  * with NO access to extension APIs, imports, or closures. Everything it needs
  * must be defined inline.
  *
- * Returns a plain object matching the PageData shape:
+ * Returns a plain object matching the PageData shape, plus the document's
+ * content type (a PDF tab reports `application/pdf`):
  * ```
  * {
  *   url: string;
+ *   contentType: string;
+ *   canonicalUrl?: string;
  *   title: string;
  *   images: string[];
- *   hints: { jsonLd?: boolean; name?: string; price?: string; image?: string; manufacturer?: string };
+ *   hints: {
+ *     jsonLd?: boolean; microdata?: boolean; rdfa?: boolean;
+ *     name?: string; price?: string; currency?: string; image?: string; manufacturer?: string;
+ *     gtin?: string; sku?: string; mpn?: string; availability?: string; priceValidUntil?: string;
+ *   };
+ *   locale?: string;
  *   confidence: 'high' | 'medium' | 'low';
+ *   listItems: Array<{ url: string; name?: string; price?: string; image?: string }>;
+ *   variants: Array<{
+ *     name?: string; sku?: string; price?: string; image?: string; url?: string;
+ *     attributes?: Record<string, string>;
+ *   }>;
+ *   offers: Array<{
+ *     seller?: string; price?: string; currency?: string; shippingPrice?: string;
+ *     condition?: string; availability?: string; url?: string;
+ *   }>;
  * }
  * ```
  */
 export function extractPageData(): {
   url: string;
+  contentType: string;
+  canonicalUrl?: string;
   title: string;
   images: string[];
   hints: {
     jsonLd?: boolean;
+    microdata?: boolean;
+    rdfa?: boolean;
     name?: string;
     price?: string;
+    currency?: string;
     image?: string;
     manufacturer?: string;
+    gtin?: string;
+    sku?: string;
+    mpn?: string;
+    availability?: string;
+    priceValidUntil?: string;
   };
+  locale?: string;
   confidence: 'high' | 'medium' | 'low';
+  listItems: Array<{ url: string; name?: string; price?: string; image?: string }>;
+  variants: Array<{
+    name?: string;
+    sku?: string;
+    price?: string;
+    image?: string;
+    url?: string;
+    attributes?: Record<string, string>;
+  }>;
+  offers: Array<{
+    seller?: string;
+    price?: string;
+    currency?: string;
+    shippingPrice?: string;
+    condition?: string;
+    availability?: string;
+    url?: string;
+  }>;
 } {
+  // -------------------------------------------------------------------------
+  // Shared helpers (schema.org value readers)
+  // -------------------------------------------------------------------------
+
+  function asText(value: unknown): string | undefined {
+    if (typeof value === 'string') return value.trim() || undefined;
+    if (typeof value === 'number') return String(value);
+    return undefined;
+  }
+
+  function toAbsoluteUrl(href: unknown): string | undefined {
+    if (typeof href !== 'string' || !href) return undefined;
+    try {
+      const url = new URL(href, document.baseURI).href;
+      return url.startsWith('http') ? url : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  function readOfferPrice(offers: unknown): string | undefined {
+    const offer = (Array.isArray(offers) ? offers[0] : offers) as Record<string, unknown> | undefined;
+    if (!offer || typeof offer !== 'object') return undefined;
+    if (typeof offer.price === 'string' || typeof offer.price === 'number') return String(offer.price);
+    if (typeof offer.lowPrice === 'string' || typeof offer.lowPrice === 'number') return String(offer.lowPrice);
+    return undefined;
+  }
+
+  function readOfferCurrency(offers: unknown): string | undefined {
+    const offer = (Array.isArray(offers) ? offers[0] : offers) as Record<string, unknown> | undefined;
+    if (!offer || typeof offer !== 'object') return undefined;
+    return asText(offer.priceCurrency);
+  }
+
+  /** Barcode of a Product or Offer; gtin13 (EAN) is the most common. */
+  function readGtin(item: Record<string, unknown> | undefined): string | undefined {
+    if (!item) return undefined;
+    for (const prop of ['gtin13', 'gtin', 'gtin14', 'gtin12', 'gtin8']) {
+      const value = asText(item[prop]);
+      if (value) return value;
+    }
+    return undefined;
+  }
+
+  function readImageUrl(image: unknown): string | undefined {
+    const first = Array.isArray(image) ? image[0] : image;
+    if (typeof first === 'string') return toAbsoluteUrl(first);
+    if (first && typeof first === 'object') return toAbsoluteUrl((first as Record<string, unknown>).url);
+    return undefined;
+  }
+
   // -------------------------------------------------------------------------
   // Layer 1: JSON-LD Structured Data (most reliable)
   // -------------------------------------------------------------------------
 
+  interface Variant {
+    name?: string;
+    sku?: string;
+    price?: string;
+    image?: string;
+    url?: string;
+    attributes?: Record<string, string>;
+  }
+
   interface JsonLdHints {
     jsonLd: boolean;
     name?: string;
     price?: string;
+    currency?: string;
     image?: string;
     manufacturer?: string;
+    gtin?: string;
+    sku?: string;
+    mpn?: string;
+    availability?: string;
+    priceValidUntil?: string;
+    variants: Variant[];
+    offers: SellerOffer[];
+  }
+
+  /** One seller's offer on a marketplace or price comparison page. */
+  interface SellerOffer {
+    seller?: string;
+    price?: string;
+    currency?: string;
+    shippingPrice?: string;
+    condition?: string;
+    availability?: string;
+    url?: string;
+  }
+
+  const MAX_VARIANTS = 50;
+  const MAX_OFFERS = 50;
+
+  function readSellerName(offer: Record<string, unknown>): string | undefined {
+    for (const prop of ['seller', 'offeredBy']) {
+      const value = Array.isArray(offer[prop]) ? (offer[prop] as unknown[])[0] : offer[prop];
+      const name =
+        asText(value) ??
+        (value && typeof value === 'object' ? asText((value as Record<string, unknown>).name) : undefined);
+      if (name) return name;
+    }
+    return undefined;
+  }
+
+  /** Shipping cost of an offer (the first OfferShippingDetails rate). */
+  function readShippingPrice(offer: Record<string, unknown>): string | undefined {
+    const details = Array.isArray(offer.shippingDetails) ? offer.shippingDetails[0] : offer.shippingDetails;
+    if (!details || typeof details !== 'object') return undefined;
+    const rate = (details as Record<string, unknown>).shippingRate;
+    const first = Array.isArray(rate) ? rate[0] : rate;
+    if (first && typeof first === 'object') {
+      const amount = first as Record<string, unknown>;
+      return asText(amount.value) ?? asText(amount.price);
+    }
+    return asText(first);
+  }
+
+  /**
+   * Offers from different sellers: the `offers` of an AggregateOffer, or
+   * several Offers with their own sellers. Empty unless at least two sellers
+   * are named, so a single shop's offers are not mistaken for a marketplace.
+   */
+  function extractJsonLdOffers(data: Record<string, unknown>): SellerOffer[] {
+    const aggregate =
+      data.offers && typeof data.offers === 'object' && !Array.isArray(data.offers)
+        ? (data.offers as Record<string, unknown>)
+        : undefined;
+    const entries: unknown[] = Array.isArray(data.offers)
+      ? data.offers
+      : Array.isArray(aggregate?.offers)
+        ? (aggregate.offers as unknown[])
+        : [];
+
+    const offers: SellerOffer[] = [];
+    for (const entry of entries) {
+      if (!entry || typeof entry !== 'object') continue;
+      const offer = entry as Record<string, unknown>;
+      const seller = readSellerName(offer);
+      const price = readOfferPrice(offer);
+      if (!seller || !price) continue;
+      offers.push({
+        seller,
+        price,
+        currency: asText(offer.priceCurrency) ?? asText(aggregate?.priceCurrency),
+        shippingPrice: readShippingPrice(offer),
+        condition: asText(offer.itemCondition),
+        availability: asText(offer.availability),
+        url: toAbsoluteUrl(offer.url),
+      });
+      if (offers.length >= MAX_OFFERS) break;
+    }
+
+    return new Set(offers.map((offer) => offer.seller)).size >= 2 ? offers : [];
+  }
+
+  /** Colour, size, material, pattern and additionalProperty name/value pairs. */
+  function readVariantAttributes(product: Record<string, unknown>): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const key of ['color', 'size', 'material', 'pattern']) {
+      const value = product[key];
+      const text =
+        asText(value) ??
+        (value && typeof value === 'object' ? asText((value as Record<string, unknown>).name) : undefined);
+      if (text) attributes[key] = text;
+    }
+
+    const props = Array.isArray(product.additionalProperty)
+      ? product.additionalProperty
+      : product.additionalProperty
+        ? [product.additionalProperty]
+        : [];
+    for (const prop of props) {
+      if (!prop || typeof prop !== 'object') continue;
+      const p = prop as Record<string, unknown>;
+      const name = asText(p.name);
+      const value = asText(p.value);
+      if (name && value) attributes[name] = value;
+    }
+    return attributes;
+  }
+
+  /**
+   * Variants come from ProductGroup/Product `hasVariant`, or — when a Product
+   * lists several offers — from the individual offers. Entries with nothing
+   * to tell them apart (no name, SKU or attributes) are dropped.
+   */
+  function extractJsonLdVariants(data: Record<string, unknown>): Variant[] {
+    const variants: Variant[] = [];
+
+    const hasVariant = Array.isArray(data.hasVariant) ? data.hasVariant : [];
+    for (const entry of hasVariant) {
+      if (!entry || typeof entry !== 'object') continue;
+      const product = entry as Record<string, unknown>;
+      const offer = (Array.isArray(product.offers) ? product.offers[0] : product.offers) as
+        | Record<string, unknown>
+        | undefined;
+      variants.push({
+        name: asText(product.name),
+        sku: asText(product.sku) ?? asText(offer?.sku),
+        price: readOfferPrice(product.offers),
+        image: readImageUrl(product.image),
+        url: toAbsoluteUrl(product.url) ?? toAbsoluteUrl(offer?.url),
+        attributes: readVariantAttributes(product),
+      });
+    }
+
+    if (variants.length === 0 && Array.isArray(data.offers) && data.offers.length > 1) {
+      for (const entry of data.offers) {
+        if (!entry || typeof entry !== 'object') continue;
+        const offer = entry as Record<string, unknown>;
+        const item =
+          offer.itemOffered && typeof offer.itemOffered === 'object'
+            ? (offer.itemOffered as Record<string, unknown>)
+            : {};
+        variants.push({
+          name: asText(offer.name) ?? asText(item.name),
+          sku: asText(offer.sku) ?? asText(item.sku),
+          price: readOfferPrice(offer),
+          image: readImageUrl(item.image ?? offer.image),
+          url: toAbsoluteUrl(offer.url) ?? toAbsoluteUrl(item.url),
+          attributes: readVariantAttributes(item),
+        });
+      }
+    }
+
+    return variants
+      .filter((v) => v.name || v.sku || Object.keys(v.attributes ?? {}).length > 0)
+      .slice(0, MAX_VARIANTS);
   }
 
   function extractJsonLd(): JsonLdHints | null {
@@ -98,7 +719,7 @@ export function extractPageData(): {
           if (!item || typeof item !== 'object') continue;
           const data = item as Record<string, unknown>;
 
-          if (data['@type'] === 'Product') {
+          if (data['@type'] === 'Product' || data['@type'] === 'ProductGroup') {
             const offers = data.offers as Record<string, unknown> | undefined;
             // offers can be a single object or an array
             let price: string | undefined;
@@ -146,12 +767,41 @@ export function extractPageData(): {
               manufacturer = data.manufacturer;
             }
 
+            // Offers from several sellers (marketplaces, price comparison).
+            const sellerOffers = extractJsonLdOffers(data);
+
+            // Variants (ProductGroup.hasVariant or multiple offers). A group
+            // usually carries no offer itself, so fall back to the first
+            // variant's price. Offers of different sellers are not variants.
+            const variants = sellerOffers.length > 0 && !Array.isArray(data.hasVariant) ? [] : extractJsonLdVariants(data);
+            if (!price) {
+              price = variants.find((v) => v.price)?.price;
+            }
+
+            const firstVariant = Array.isArray(data.hasVariant)
+              ? (data.hasVariant[0] as Record<string, unknown> | undefined)
+              : undefined;
+
+            // Identifiers and stock status; shops put them on the Product or
+            // on its (first) Offer.
+            const offer = (Array.isArray(data.offers) ? data.offers[0] : data.offers) as
+              | Record<string, unknown>
+              | undefined;
+
             return {
               jsonLd: true,
               name: typeof data.name === 'string' ? data.name : undefined,
               price,
+              currency: readOfferCurrency(data.offers) ?? readOfferCurrency(firstVariant?.offers),
               image: imageUrl,
               manufacturer,
+              gtin: readGtin(data) ?? readGtin(offer),
+              sku: asText(data.sku) ?? asText(offer?.sku),
+              mpn: asText(data.mpn) ?? asText(offer?.mpn),
+              availability: asText(offer?.availability),
+              priceValidUntil: asText(offer?.priceValidUntil),
+              variants,
+              offers: sellerOffers,
             };
           }
         }
@@ -162,6 +812,158 @@ export function extractPageData(): {
     return null;
   }
 
+  // -------------------------------------------------------------------------
+  // Layers 1b / 1c: Microdata and RDFa (schema.org inline markup)
+  // -------------------------------------------------------------------------
+
+  interface ScopedHints {
+    name?: string;
+    price?: string;
+    currency?: string;
+    image?: string;
+    manufacturer?: string;
+    gtin?: string;
+    sku?: string;
+    mpn?: string;
+    availability?: string;
+    priceValidUntil?: string;
+  }
+
+  /**
+   * Read a property value the way the microdata / RDFa specs define it:
+   * `content` wins, then URL-bearing attributes, then the element text.
+   */
+  function readPropertyValue(el: Element): string | undefined {
+    const content = el.getAttribute('content');
+    if (content != null) return content.trim() || undefined;
+
+    const tag = el.tagName.toLowerCase();
+    if (['img', 'source', 'video', 'audio', 'embed', 'iframe'].includes(tag)) {
+      const src = (el as HTMLImageElement).currentSrc || (el as HTMLImageElement).src;
+      if (src) return src;
+    }
+    if (['a', 'link', 'area'].includes(tag)) {
+      const href = (el as HTMLAnchorElement).href;
+      if (href) return href;
+    }
+    const resource = el.getAttribute('resource') ?? el.getAttribute('href') ?? el.getAttribute('src');
+    if (resource && tag !== 'meta') {
+      try {
+        return new URL(resource, document.baseURI).href;
+      } catch {
+        // Fall through to text content
+      }
+    }
+    if (tag === 'data' || tag === 'meter') return el.getAttribute('value') ?? undefined;
+    if (tag === 'time') return el.getAttribute('datetime') ?? el.textContent?.trim() ?? undefined;
+
+    const text = (el.textContent ?? '').trim().replace(/\s+/g, ' ');
+    return text || undefined;
+  }
+
+  /**
+   * Find the first element carrying `prop` that belongs directly to `scope`
+   * (i.e. not to an item nested inside it).
+   */
+  function findScopedProperty(
+    scope: Element,
+    prop: string,
+    propAttr: 'itemprop' | 'property',
+    scopeSelector: string,
+  ): Element | null {
+    const candidates = scope.querySelectorAll(`[${propAttr}]`);
+    for (const el of candidates) {
+      const tokens = (el.getAttribute(propAttr) ?? '').split(/\s+/);
+      // RDFa properties may be prefixed (schema:price) or full IRIs
+      const matches = tokens.some(
+        (token) => token === prop || token.endsWith(`:${prop}`) || token.endsWith(`/${prop}`),
+      );
+      if (!matches) continue;
+      if (el.parentElement?.closest(scopeSelector) !== scope) continue;
+      return el;
+    }
+    return null;
+  }
+
+  function extractScopedProduct(
+    scope: Element,
+    propAttr: 'itemprop' | 'property',
+    scopeSelector: string,
+  ): ScopedHints {
+    const read = (root: Element, prop: string): string | undefined => {
+      const el = findScopedProperty(root, prop, propAttr, scopeSelector);
+      return el ? readPropertyValue(el) : undefined;
+    };
+    // Nested items (Offer, Brand, Organization) expose their own properties.
+    const nested = (prop: string): Element | null => {
+      const el = findScopedProperty(scope, prop, propAttr, scopeSelector);
+      return el && el.matches(scopeSelector) ? el : null;
+    };
+
+    const offer = nested('offers');
+    const price =
+      (offer ? read(offer, 'price') ?? read(offer, 'lowPrice') : undefined) ?? read(scope, 'price');
+    const currency =
+      (offer ? read(offer, 'priceCurrency') : undefined) ?? read(scope, 'priceCurrency');
+
+    let manufacturer: string | undefined;
+    for (const prop of ['brand', 'manufacturer']) {
+      const item = nested(prop);
+      manufacturer = item ? read(item, 'name') : read(scope, prop);
+      if (manufacturer) break;
+    }
+
+    // Identifiers may sit on the product or its offer.
+    const readEither = (prop: string) => read(scope, prop) ?? (offer ? read(offer, prop) : undefined);
+    const gtin = ['gtin13', 'gtin', 'gtin14', 'gtin12', 'gtin8'].map(readEither).find(Boolean);
+
+    return {
+      name: read(scope, 'name'),
+      price,
+      currency,
+      image: read(scope, 'image'),
+      manufacturer,
+      gtin,
+      sku: readEither('sku'),
+      mpn: readEither('mpn'),
+      availability: offer ? read(offer, 'availability') : read(scope, 'availability'),
+      priceValidUntil: offer ? read(offer, 'priceValidUntil') : undefined,
+    };
+  }
+
+  const MICRODATA_PRODUCT_SELECTOR =
+    '[itemscope][itemtype$="schema.org/Product"], [itemscope][itemtype$="schema.org/Product/"]';
+  const RDFA_PRODUCT_SELECTOR =
+    '[typeof~="Product"], [typeof~="schema:Product"], [typeof~="http://schema.org/Product"], [typeof~="https://schema.org/Product"]';
+
+  /** Top-level product scopes (ignores products nested in other products). */
+  function findProductScopes(selector: string): Element[] {
+    return Array.from(document.querySelectorAll(selector)).filter(
+      (el) => !el.parentElement?.closest(selector),
+    );
+  }
+
+  /**
+   * Pick the product the page is about. Listing pages mark up every card as
+   * a Product, so with several candidates only the one holding the page
+   * heading counts; otherwise the page is treated as a listing.
+   */
+  function pickMainProductScope(scopes: Element[]): Element | null {
+    if (scopes.length === 1) return scopes[0] ?? null;
+    const heading = document.querySelector('h1');
+    return (heading && scopes.find((scope) => scope.contains(heading))) ?? null;
+  }
+
+  function extractMicrodata(): ScopedHints | null {
+    const scope = pickMainProductScope(findProductScopes(MICRODATA_PRODUCT_SELECTOR));
+    return scope ? extractScopedProduct(scope, 'itemprop', '[itemscope]') : null;
+  }
+
+  function extractRdfa(): ScopedHints | null {
+    const scope = pickMainProductScope(findProductScopes(RDFA_PRODUCT_SELECTOR));
+    return scope ? extractScopedProduct(scope, 'property', '[typeof]') : null;
+  }
+
   // -------------------------------------------------------------------------
   // Layer 2: Open Graph / Meta Tags
   // -------------------------------------------------------------------------
@@ -177,71 +979,349 @@ export function extractPageData(): {
     name?: string;
     image?: string;
     price?: string;
+    currency?: string;
   }
 
   function extractMetaTags(): MetaHints {
     return {
       name: getMeta('og:title') ?? getMeta('twitter:title') ?? undefined,
       image: getMeta('og:image') ?? getMeta('twitter:image') ?? undefined,
-      price: getMeta('product:price:amount') ?? undefined,
+      price: getMeta('product:price:amount') ?? getMeta('og:price:amount') ?? undefined,
+      currency: getMeta('product:price:currency') ?? getMeta('og:price:currency') ?? undefined,
     };
   }
 
+  /**
+   * The page's own preferred URL: `<link rel="canonical">`, then `og:url`.
+   * Shops usually omit tracking and session parameters there.
+   */
+  function extractCanonicalUrl(): string | undefined {
+    const link = document.querySelector('link[rel="canonical"]')?.getAttribute('href');
+    return toAbsoluteUrl(link) ?? toAbsoluteUrl(getMeta('og:url'));
+  }
+
+  /** Page language, used to disambiguate price formats ("1.299" vs "1,299"). */
+  function extractLocale(): string | undefined {
+    const lang = document.documentElement.lang || getMeta('og:locale') || '';
+    return lang.replace('_', '-') || undefined;
+  }
+
   // -------------------------------------------------------------------------
   // Layer 3: Image Extraction with Smart Filtering
   // -------------------------------------------------------------------------
 
-  function extractImages(): string[] {
-    const seen = new Set<string>();
-    const images: Array<{ src: string; area: number }> = [];
+  /**
+   * Lazy-loading attributes holding the real image URL, best first. Same
+   * lists as in extractPageContent (see its doc comment).
+   */
+  const LAZY_IMAGE_ATTRIBUTES = [
+    'data-zoom-image', 'data-large_image', 'data-large', 'data-full', 'data-src',
+    'data-lazy-src', 'data-lazy', 'data-original',
+  ];
+  const PLACEHOLDER_IMAGE = /(blank|spacer|placeholder|transparent|pixel|lazy[-_]?load\w*)\.(gif|png|svg)/i;
+
+  interface ImageCandidate {
+    url: string;
+    /** Intrinsic width of `url` when known (srcset descriptor or natural size). */
+    width: number;
+    /** From a zoom / full-size attribute: preferred over any width. */
+    fullSize?: boolean;
+  }
+
+  /** Entries of a `srcset`, with density descriptors turned into widths. */
+  function parseSrcset(srcset: string | null, renderedWidth: number): ImageCandidate[] {
+    if (!srcset) return [];
+    const candidates: ImageCandidate[] = [];
+    for (const entry of srcset.split(/,\s+/)) {
+      const [rawUrl, descriptor = ''] = entry.trim().split(/\s+/);
+      const url = toAbsoluteUrl(rawUrl);
+      if (!url) continue;
+      const w = /^(\d+)w$/.exec(descriptor);
+      const x = /^([\d.]+)x$/.exec(descriptor);
+      const width = w ? Number(w[1]) : x ? Number(x[1]) * (renderedWidth || 100) : renderedWidth;
+      candidates.push({ url, width });
+    }
+    return candidates;
+  }
+
+  // Highest-resolution URL an <img> can show: srcset and <picture> sources,
+  // zoom / lazy-loading attributes, then the loaded source.
+  function bestImageSource(img: HTMLImageElement): ImageCandidate | null {
+    const rendered = img.width || img.clientWidth;
+    const candidates: ImageCandidate[] = [
+      ...parseSrcset(img.getAttribute('srcset'), rendered),
+      ...parseSrcset(img.getAttribute('data-srcset'), rendered),
+    ];
+    img.closest('picture')?.querySelectorAll('source').forEach((source) => {
+      candidates.push(...parseSrcset(source.getAttribute('srcset'), rendered));
+      candidates.push(...parseSrcset(source.getAttribute('data-srcset'), rendered));
+    });
+    LAZY_IMAGE_ATTRIBUTES.forEach((attr, i) => {
+      const url = toAbsoluteUrl(img.getAttribute(attr));
+      // The first four name zoom / full-size images.
+      if (url) candidates.push({ url, width: i < 4 ? 0 : img.naturalWidth || rendered, fullSize: i < 4 });
+    });
+    for (const src of [img.currentSrc, img.src]) {
+      const url = toAbsoluteUrl(src);
+      if (url) candidates.push({ url, width: img.naturalWidth || rendered });
+    }
+
+    let best: ImageCandidate | null = null;
+    for (const candidate of candidates) {
+      if (PLACEHOLDER_IMAGE.test(candidate.url)) continue;
+      if (
+        !best ||
+        (candidate.fullSize && !best.fullSize) ||
+        (!!candidate.fullSize === !!best.fullSize && candidate.width > best.width)
+      ) {
+        best = candidate;
+      }
+    }
+    return best;
+  }
+
+  /** Host and path, for matching an image against the JSON-LD / og:image URL. */
+  function imageKey(url: string): string {
+    try {
+      const parsed = new URL(url);
+      return `${parsed.hostname}${parsed.pathname}`.toLowerCase();
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * Product image candidates, ranked by relevance.
+   *
+   * Covers `<img>` (choosing the largest srcset / `<picture>` / lazy-loaded
+   * variant) and CSS background images of gallery elements. Each image is
+   * scored by size, with bonuses for matching the structured-data image
+   * (`preferred`), sitting near the page heading or inside a product /
+   * gallery container, and a penalty for site chrome.
+   */
+  function extractImages(preferred: Array<string | undefined>): string[] {
+    const preferredKeys = new Set(preferred.filter((u): u is string => !!u).map(imageKey));
+    const heading = document.querySelector('h1');
+    const headingTop = heading ? heading.getBoundingClientRect().top + window.scrollY : null;
+
+    const scored = new Map<string, { score: number; size: number }>();
+
+    const consider = (el: Element, url: string, width: number, height: number, fromAttribute: boolean) => {
+      const known = width > 0 && height > 0;
+      // Unloaded lazy images have no size yet; trust their attributes.
+      if (!known && !fromAttribute) return;
+      const size = known ? Math.min(width, height) : 200;
+
+      let score = Math.log10(known ? width * height : 200 * 200);
+      if (preferredKeys.has(imageKey(url))) score += 4;
+      if (headingTop != null) {
+        const top = el.getBoundingClientRect().top + window.scrollY;
+        const distance = Math.abs(top - headingTop);
+        if (distance < 800) score += 1.5 * (1 - distance / 800);
+      }
+      if (el.closest('[itemtype*="Product" i], [class*="gallery" i], [id*="gallery" i], [class*="product" i]')) {
+        score += 1;
+      }
+      if (el.closest('nav, footer, header, aside, [role="navigation"], [role="banner"], [role="contentinfo"]')) {
+        score -= 3;
+      }
+
+      const existing = scored.get(url);
+      if (!existing || existing.score < score) scored.set(url, { score, size });
+    };
 
-    // First pass: images >= 100x100
     document.querySelectorAll('img').forEach((img) => {
-      const src = img.src;
-      if (!src || !src.startsWith('http') || seen.has(src)) return;
-      seen.add(src);
-
-      const w =
-        img.naturalWidth ||
-        img.width ||
-        parseInt(img.getAttribute('width') ?? '0', 10);
-      const h =
-        img.naturalHeight ||
-        img.height ||
-        parseInt(img.getAttribute('height') ?? '0', 10);
-
-      if (w >= 100 && h >= 100) {
-        images.push({ src, area: w * h });
+      const best = bestImageSource(img);
+      if (!best) return;
+      const rect = img.getBoundingClientRect();
+      const aspect = img.naturalWidth && img.naturalHeight
+        ? img.naturalHeight / img.naturalWidth
+        : rect.width ? rect.height / rect.width : 1;
+      const width = Math.max(
+        best.width,
+        img.naturalWidth,
+        rect.width,
+        parseInt(img.getAttribute('width') ?? '0', 10) || 0,
+      );
+      const fromAttribute = best.url !== toAbsoluteUrl(img.currentSrc || img.src);
+      consider(img, best.url, width, Math.round(width * aspect), fromAttribute);
+    });
+
+    // CSS background galleries (inline styles and lazy data-bg attributes).
+    const backgrounds = document.querySelectorAll(
+      '[style*="background"], [data-bg], [data-background-image], [class*="gallery" i] div, [class*="slide" i]',
+    );
+    Array.from(backgrounds).slice(0, 500).forEach((el) => {
+      const rect = el.getBoundingClientRect();
+      const lazy = toAbsoluteUrl(el.getAttribute('data-bg') ?? el.getAttribute('data-background-image'));
+      if (lazy) consider(el, lazy, rect.width, rect.height, true);
+      const style = getComputedStyle(el).backgroundImage;
+      for (const match of style.matchAll(/url\(["']?([^"')]+)["']?\)/g)) {
+        const url = toAbsoluteUrl(match[1]);
+        if (url && !PLACEHOLDER_IMAGE.test(url)) consider(el, url, rect.width, rect.height, false);
       }
     });
 
-    // Second pass: relax to 50x50 if very few images found
-    if (images.length < 3) {
-      document.querySelectorAll('img').forEach((img) => {
-        const src = img.src;
-        if (!src || !src.startsWith('http') || seen.has(src)) return;
-        seen.add(src);
-
-        const w =
-          img.naturalWidth ||
-          img.width ||
-          parseInt(img.getAttribute('width') ?? '0', 10);
-        const h =
-          img.naturalHeight ||
-          img.height ||
-          parseInt(img.getAttribute('height') ?? '0', 10);
-
-        if (w >= 50 && h >= 50) {
-          images.push({ src, area: w * h });
+    // Keep images >= 100px; relax to 50px if very few are found.
+    const ranked = Array.from(scored.entries()).sort((a, b) => b[1].score - a[1].score);
+    let images = ranked.filter(([, info]) => info.size >= 100);
+    if (images.length < 3) images = ranked.filter(([, info]) => info.size >= 50);
+    return images.slice(0, 20).map(([url]) => url);
+  }
+
+  // -------------------------------------------------------------------------
+  // Layer 4: Listing detection (category / search-result pages)
+  // -------------------------------------------------------------------------
+
+  interface ListItem {
+    url: string;
+    name?: string;
+    price?: string;
+    image?: string;
+  }
+
+  const MAX_LIST_ITEMS = 100;
+
+  /** Collect products from JSON-LD ItemList blocks (ListItem → item / url). */
+  function extractJsonLdListItems(): ListItem[] {
+    const found: ListItem[] = [];
+    document.querySelectorAll('script[type="application/ld+json"]').forEach((script) => {
+      try {
+        const raw = JSON.parse(script.textContent ?? '');
+        const items: unknown[] = Array.isArray(raw)
+          ? raw
+          : raw['@graph'] && Array.isArray(raw['@graph'])
+            ? raw['@graph']
+            : [raw];
+
+        for (const item of items) {
+          if (!item || typeof item !== 'object') continue;
+          const data = item as Record<string, unknown>;
+          if (data['@type'] !== 'ItemList' || !Array.isArray(data.itemListElement)) continue;
+
+          for (const element of data.itemListElement) {
+            if (!element || typeof element !== 'object') continue;
+            const listItem = element as Record<string, unknown>;
+            // ListItem wraps the product in `item`; some shops list Products directly.
+            const product =
+              listItem.item && typeof listItem.item === 'object'
+                ? (listItem.item as Record<string, unknown>)
+                : listItem;
+            const url =
+              toAbsoluteUrl(product.url) ??
+              toAbsoluteUrl(listItem.url) ??
+              toAbsoluteUrl(typeof listItem.item === 'string' ? listItem.item : undefined);
+            if (!url) continue;
+
+            found.push({
+              url,
+              name:
+                typeof product.name === 'string'
+                  ? product.name
+                  : typeof listItem.name === 'string'
+                    ? listItem.name
+                    : undefined,
+              price: readOfferPrice(product.offers),
+              image: readImageUrl(product.image),
+            });
+          }
         }
+      } catch {
+        // Malformed JSON-LD -- continue to next script tag
+      }
+    });
+    return found;
+  }
+
+  /** Heuristic: repeated product cards that each link to a product page. */
+  function extractProductCards(): ListItem[] {
+    const CARD_SELECTOR = [
+      '[data-product-id]',
+      '[data-productid]',
+      '[class*="product-card"]',
+      '[class*="productCard"]',
+      '[class*="ProductCard"]',
+      '[class*="product-tile"]',
+      '[class*="product-item"]',
+      '.product-miniature',
+      'li.product',
+    ].join(', ');
+
+    // A sale shows the crossed-out list price first; like locatePriceRegion,
+    // skip struck-through prices, also inside a wrapper holding both.
+    const isStruckThrough = (el: Element) =>
+      !!el.closest('del, s, strike') || getComputedStyle(el).textDecorationLine.includes('line-through');
+    const currentPriceText = (el: Element) => {
+      const copy = el.cloneNode(true) as Element;
+      copy.querySelectorAll('del, s, strike').forEach((struck) => struck.remove());
+      return (copy.textContent ?? '').trim().replace(/\s+/g, ' ');
+    };
+
+    const found: ListItem[] = [];
+    document.querySelectorAll(CARD_SELECTOR).forEach((card) => {
+      // Skip wrappers that contain other cards -- the inner cards are the products.
+      if (card.querySelector(CARD_SELECTOR)) return;
+
+      const link = card.querySelector<HTMLAnchorElement>('a[href]');
+      const url = toAbsoluteUrl(link?.getAttribute('href'));
+      if (!url) return;
+
+      const nameEl = card.querySelector(
+        'h2, h3, h4, [class*="name"], [class*="title"], [itemprop="name"]',
+      );
+      const priceEl = Array.from(card.querySelectorAll('[itemprop="price"], [class*="price"]')).find(
+        (el) => !isStruckThrough(el) && (el.hasAttribute('content') || /\d/.test(currentPriceText(el))),
+      );
+      const img = card.querySelector('img');
+
+      const name = (nameEl?.textContent ?? link?.textContent ?? '').trim().replace(/\s+/g, ' ');
+      const price = priceEl ? priceEl.getAttribute('content') ?? currentPriceText(priceEl) : '';
+      const image = toAbsoluteUrl(img?.currentSrc || img?.src);
+
+      if (!price && !image) return;
+      found.push({
+        url,
+        name: name || undefined,
+        price: price || undefined,
+        image,
       });
+    });
+    return found;
+  }
+
+  /** Products marked up as microdata / RDFa cards on a listing page. */
+  function extractScopedListItems(): ListItem[] {
+    const found: ListItem[] = [];
+    const sources: Array<[string, 'itemprop' | 'property', string]> = [
+      [MICRODATA_PRODUCT_SELECTOR, 'itemprop', '[itemscope]'],
+      [RDFA_PRODUCT_SELECTOR, 'property', '[typeof]'],
+    ];
+    for (const [selector, propAttr, scopeSelector] of sources) {
+      const scopes = findProductScopes(selector);
+      if (scopes.length < 2) continue;
+      for (const scope of scopes) {
+        const urlEl = findScopedProperty(scope, 'url', propAttr, scopeSelector);
+        const url =
+          toAbsoluteUrl(urlEl ? readPropertyValue(urlEl) : undefined) ??
+          toAbsoluteUrl(scope.querySelector('a[href]')?.getAttribute('href'));
+        if (!url) continue;
+        const product = extractScopedProduct(scope, propAttr, scopeSelector);
+        found.push({ url, name: product.name, price: product.price, image: product.image });
+      }
     }
+    return found;
+  }
 
-    // Sort by area descending (largest first), cap at 20
-    return images
-      .sort((a, b) => b.area - a.area)
-      .slice(0, 20)
-      .map((img) => img.src);
+  function dedupeListItems(items: ListItem[]): ListItem[] {
+    const seen = new Set<string>();
+    const result: ListItem[] = [];
+    for (const item of items) {
+      if (seen.has(item.url)) continue;
+      seen.add(item.url);
+      result.push(item);
+      if (result.length >= MAX_LIST_ITEMS) break;
+    }
+    return result;
   }
 
   // -------------------------------------------------------------------------
@@ -250,10 +1330,12 @@ export function extractPageData(): {
 
   function getProductConfidence(hints: {
     jsonLd?: boolean;
+    microdata?: boolean;
+    rdfa?: boolean;
     name?: string;
     price?: string;
   }): 'high' | 'medium' | 'low' {
-    if (hints.jsonLd) return 'high';
+    if (hints.jsonLd || hints.microdata || hints.rdfa) return 'high';
     if (hints.name || hints.price) return 'medium';
     return 'low';
   }
@@ -265,34 +1347,573 @@ export function extractPageData(): {
   // Layer 1: Try JSON-LD first (most reliable)
   const jsonLdHints = extractJsonLd();
 
+  // Layers 1b / 1c: inline schema.org markup
+  const microdataHints = extractMicrodata();
+  const rdfaHints = extractRdfa();
+
   // Layer 2: OG / meta tags
   const metaHints = extractMetaTags();
 
-  // Layer 3: Images
-  const images = extractImages();
+  // Layer 3: Images, ranked against the structured-data image
+  const images = extractImages([
+    jsonLdHints?.image,
+    microdataHints?.image,
+    rdfaHints?.image,
+    metaHints.image,
+  ]);
 
-  // Merge hints (JSON-LD takes priority)
+  // Merge hints (priority: JSON-LD > microdata > RDFa > meta tags)
   const hints: {
     jsonLd?: boolean;
+    microdata?: boolean;
+    rdfa?: boolean;
     name?: string;
     price?: string;
+    currency?: string;
     image?: string;
     manufacturer?: string;
+    gtin?: string;
+    sku?: string;
+    mpn?: string;
+    availability?: string;
+    priceValidUntil?: string;
   } = {
     jsonLd: jsonLdHints?.jsonLd ?? undefined,
-    name: jsonLdHints?.name ?? metaHints.name ?? undefined,
-    price: jsonLdHints?.price ?? metaHints.price ?? undefined,
-    image: jsonLdHints?.image ?? metaHints.image ?? undefined,
-    manufacturer: jsonLdHints?.manufacturer ?? undefined,
+    microdata: microdataHints ? true : undefined,
+    rdfa: rdfaHints ? true : undefined,
+    name: jsonLdHints?.name ?? microdataHints?.name ?? rdfaHints?.name ?? metaHints.name ?? undefined,
+    price: jsonLdHints?.price ?? microdataHints?.price ?? rdfaHints?.price ?? metaHints.price ?? undefined,
+    currency: jsonLdHints?.currency ?? microdataHints?.currency ?? rdfaHints?.currency ?? metaHints.currency ?? undefined,
+    image: jsonLdHints?.image ?? microdataHints?.image ?? rdfaHints?.image ?? metaHints.image ?? undefined,
+    manufacturer: jsonLdHints?.manufacturer ?? microdataHints?.manufacturer ?? rdfaHints?.manufacturer ?? undefined,
+    gtin: jsonLdHints?.gtin ?? microdataHints?.gtin ?? rdfaHints?.gtin ?? undefined,
+    sku: jsonLdHints?.sku ?? microdataHints?.sku ?? rdfaHints?.sku ?? undefined,
+    mpn: jsonLdHints?.mpn ?? microdataHints?.mpn ?? rdfaHints?.mpn ?? undefined,
+    availability: jsonLdHints?.availability ?? microdataHints?.availability ?? rdfaHints?.availability ?? undefined,
+    priceValidUntil:
+      jsonLdHints?.priceValidUntil ?? microdataHints?.priceValidUntil ?? rdfaHints?.priceValidUntil ?? undefined,
   };
 
   const confidence = getProductConfidence(hints);
 
+  // Layer 4: Listing items. An explicit ItemList always wins; card heuristics
+  // only apply on pages without Product structured data, so "related
+  // products" carousels on a product page are not mistaken for a listing.
+  let listItems = dedupeListItems(extractJsonLdListItems());
+  if (listItems.length === 0 && !hints.jsonLd && !hints.microdata && !hints.rdfa) {
+    listItems = dedupeListItems(extractScopedListItems());
+  }
+  if (listItems.length === 0 && !hints.jsonLd && !hints.microdata && !hints.rdfa) {
+    const cards = dedupeListItems(extractProductCards());
+    if (cards.length >= 3) listItems = cards;
+  }
+
   return {
     url: document.location.href,
+    contentType: document.contentType,
+    canonicalUrl: extractCanonicalUrl(),
     title: document.title,
     images,
     hints,
+    locale: extractLocale(),
     confidence,
+    listItems: listItems.length >= 2 ? listItems : [],
+    variants: jsonLdHints && jsonLdHints.variants.length >= 2 ? jsonLdHints.variants : [],
+    offers: jsonLdHints?.offers ?? [],
   };
 }
+
+/**
+ * Self-contained recipe extraction function.
+ *
+ * Passed as the `func` parameter to `browser.scripting.executeScript()` with
+ * the recipe's fields as its only argument, so — like the functions above —
+ * it must not use imports or closures.
+ *
+ * Each field's selector is a CSS selector, or an XPath expression when it
+ * starts with `/` or `(`. The first matching element is read: the given
+ * attribute when set (`src` and `href` are made absolute), otherwise the
+ * element's text, an `<img>`'s source, a `<meta>`'s content or a form
+ * field's value. Returns the values keyed by field key; a field whose
+ * selector is invalid or matches nothing is `null`.
+ */
+export function applyExtractionRecipe(
+  fields: Array<{ key: string; selector: string; attribute?: string }>,
+): Record<string, string | null> {
+  function findElement(selector: string): Element | null {
+    try {
+      if (/^\s*[/(]/.test(selector)) {
+        const result = document.evaluate(selector, document, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null);
+        const node = result.singleNodeValue;
+        if (!node) return null;
+        return node instanceof Element ? node : node.parentElement;
+      }
+      return document.querySelector(selector);
+    } catch {
+      // Invalid selector: treat as no match
+      return null;
+    }
+  }
+
+  function toAbsolute(value: string): string {
+    try {
+      return new URL(value, document.baseURI).href;
+    } catch {
+      return value;
+    }
+  }
+
+  function readValue(el: Element, attribute: string | undefined): string | null {
+    let value: string | null;
+    if (attribute) {
+      value = el.getAttribute(attribute);
+      if (value && (attribute === 'src' || attribute === 'href')) value = toAbsolute(value);
+    } else if (el instanceof HTMLImageElement) {
+      value = el.currentSrc || el.src;
+    } else if (el instanceof HTMLMetaElement) {
+      value = el.content;
+    } else if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement || el instanceof HTMLSelectElement) {
+      value = el.value;
+    } else {
+      value = (el instanceof HTMLElement ? el.innerText : el.textContent) ?? null;
+    }
+    const trimmed = value?.replace(/\s+/g, ' ').trim();
+    return trimmed ? trimmed.slice(0, 2000) : null;
+  }
+
+  const values: Record<string, string | null> = {};
+  for (const field of fields) {
+    const el = findElement(field.selector);
+    values[field.key] = el ? readValue(el, field.attribute) : null;
+  }
+  return values;
+}
+
+/**
+ * Self-contained element picker.
+ *
+ * Injected with `browser.scripting.executeScript()` like the functions above.
+ * Highlights the element under the mouse and resolves with the clicked
+ * element's text (an image's source), plus a CSS selector that finds it
+ * again on similar pages. Resolves with `null` when the user presses Esc or
+ * {@link cancelElementPicker} runs. Starting a picker cancels one that is
+ * still active.
+ *
+ * @param hint  Instruction shown in a banner at the top of the page.
+ */
+export function pickPageElement(
+  hint: string,
+): Promise<{ text: string; selector: string; attribute?: string } | null> {
+  const CANCEL_EVENT = 'rerum-picker-cancel';
+  const MAX_TEXT_LENGTH = 2000;
+
+  window.dispatchEvent(new Event(CANCEL_EVENT));
+
+  // Shortest ancestor path that `querySelector` resolves to `el`. Classes
+  // that look generated (long digit runs) are skipped; `:nth-of-type` is
+  // only added where siblings would otherwise be ambiguous.
+  function buildSelector(el: Element): string {
+    const parts: string[] = [];
+    let node: Element | null = el;
+    while (node && node !== document.documentElement) {
+      if (node.id && !/\d{3,}/.test(node.id)) {
+        const idSelector = `#${CSS.escape(node.id)}`;
+        if (document.querySelectorAll(idSelector).length === 1) {
+          parts.unshift(idSelector);
+          break;
+        }
+      }
+
+      let part = node.tagName.toLowerCase();
+      const classes = Array.from(node.classList)
+        .filter((c) => /^[a-zA-Z][\w-]*$/.test(c) && !/\d{3,}/.test(c))
+        .slice(0, 2);
+      part += classes.map((c) => `.${CSS.escape(c)}`).join('');
+
+      const parent: Element | null = node.parentElement;
+      const current: Element = node;
+      const selectorWith = (p: string) => [p, ...parts].join(' > ');
+      try {
+        if (document.querySelector(selectorWith(part)) !== el && parent) {
+          const sameTag = Array.from(parent.children).filter((c) => c.tagName === current.tagName);
+          if (sameTag.length > 1) part += `:nth-of-type(${sameTag.indexOf(current) + 1})`;
+        }
+        parts.unshift(part);
+        if (document.querySelector(parts.join(' > ')) === el) return parts.join(' > ');
+      } catch {
+        parts.unshift(part);
+      }
+      node = parent;
+    }
+    return parts.join(' > ');
+  }
+
+  function describe(el: Element): { text: string; selector: string; attribute?: string } {
+    const selector = buildSelector(el);
+    if (el instanceof HTMLImageElement) {
+      return { text: el.currentSrc || el.src, selector, attribute: 'src' };
+    }
+    const raw = el instanceof HTMLElement ? el.innerText : el.textContent ?? '';
+    return { text: raw.replace(/\s+/g, ' ').trim().slice(0, MAX_TEXT_LENGTH), selector };
+  }
+
+  return new Promise((resolve) => {
+    const highlight = document.createElement('div');
+    highlight.style.cssText =
+      'position:fixed;z-index:2147483647;pointer-events:none;display:none;box-sizing:border-box;' +
+      'border:2px solid #667eea;background:rgba(102,126,234,0.15);border-radius:2px;';
+    const banner = document.createElement('div');
+    banner.textContent = hint;
+    banner.style.cssText =
+      'position:fixed;z-index:2147483647;pointer-events:none;top:8px;left:50%;transform:translateX(-50%);' +
+      'padding:6px 12px;border-radius:4px;background:#333;color:#fff;font:13px/1.4 system-ui,sans-serif;' +
+      'box-shadow:0 2px 8px rgba(0,0,0,0.3);';
+    document.documentElement.append(highlight, banner);
+
+    let hovered: Element | null = null;
+
+    const onMove = (e: MouseEvent) => {
+      const el = document.elementFromPoint(e.clientX, e.clientY);
+      if (!el || el === hovered) return;
+      hovered = el;
+      const rect = el.getBoundingClientRect();
+      highlight.style.display = 'block';
+      highlight.style.top = `${rect.top}px`;
+      highlight.style.left = `${rect.left}px`;
+      highlight.style.width = `${rect.width}px`;
+      highlight.style.height = `${rect.height}px`;
+    };
+
+    // Keep the page from following links or opening menus while picking.
+    const block = (e: Event) => {
+      e.preventDefault();
+      e.stopPropagation();
+    };
+
+    const onClick = (e: MouseEvent) => {
+      block(e);
+      const el = document.elementFromPoint(e.clientX, e.clientY) ?? hovered;
+      finish(el ? describe(el) : null);
+    };
+
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        block(e);
+        finish(null);
+      }
+    };
+
+    const onCancel = () => finish(null);
+
+    const finish = (result: { text: string; selector: string; attribute?: string } | null) => {
+      document.removeEventListener('mousemove', onMove, true);
+      document.removeEventListener('mousedown', block, true);
+      document.removeEventListener('mouseup', block, true);
+      document.removeEventListener('click', onClick, true);
+      document.removeEventListener('keydown', onKey, true);
+      window.removeEventListener(CANCEL_EVENT, onCancel);
+      highlight.remove();
+      banner.remove();
+      resolve(result);
+    };
+
+    document.addEventListener('mousemove', onMove, true);
+    document.addEventListener('mousedown', block, true);
+    document.addEventListener('mouseup', block, true);
+    document.addEventListener('click', onClick, true);
+    document.addEventListener('keydown', onKey, true);
+    window.addEventListener(CANCEL_EVENT, onCancel);
+  });
+}
+
+/**
+ * Self-contained function that stops an active {@link pickPageElement}
+ * picker on the page, if any.
+ */
+export function cancelElementPicker(): void {
+  window.dispatchEvent(new Event('rerum-picker-cancel'));
+}
+
+/**
+ * Self-contained function that finds the product price on the page for a
+ * price evidence screenshot.
+ *
+ * Injected with `browser.scripting.executeScript()` like the functions above.
+ * Prefers a visible price element whose digits contain the integer part of
+ * `price` and that is not struck through (an old list price). Scrolls it
+ * into the middle of the viewport and resolves with the area to crop — the
+ * price with some surrounding context, widened to the page heading when it
+ * is on screen — in CSS pixels. Resolves with `null` when no price is found.
+ */
+export function locatePriceRegion(price: string | null): Promise<{
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  viewportWidth: number;
+  viewportHeight: number;
+} | null> {
+  const PADDING_X = 240;
+  const PADDING_Y = 160;
+
+  const wanted = price ? (price.split('.')[0] ?? '').replace(/\D/g, '') : '';
+
+  const isVisible = (el: Element) => {
+    const rect = el.getBoundingClientRect();
+    const style = getComputedStyle(el);
+    return rect.width > 0 && rect.height > 0 && style.display !== 'none' && style.visibility !== 'hidden';
+  };
+  const isStruckThrough = (el: Element) =>
+    !!el.closest('del, s, strike') || getComputedStyle(el).textDecorationLine.includes('line-through');
+
+  const candidates = Array.from(
+    document.querySelectorAll('[itemprop="price"], [data-price], [class*="price" i], [id*="price" i]'),
+  ).filter((el) => /\d/.test(el.textContent ?? '') && isVisible(el) && !el.closest('nav, header, footer'));
+
+  const priceElement =
+    candidates.find((el) => wanted && (el.textContent ?? '').replace(/\D/g, '').includes(wanted) && !isStruckThrough(el)) ??
+    candidates.find((el) => !isStruckThrough(el)) ??
+    null;
+  if (!priceElement) return Promise.resolve(null);
+
+  priceElement.scrollIntoView({ block: 'center', inline: 'nearest', behavior: 'instant' });
+
+  // Wait for the scroll to be painted before the background captures the tab.
+  return new Promise((resolve) => {
+    requestAnimationFrame(() => requestAnimationFrame(() => {
+      const rect = priceElement.getBoundingClientRect();
+      let top = rect.top - PADDING_Y;
+      let bottom = rect.bottom + PADDING_Y;
+      let left = rect.left - PADDING_X;
+      let right = rect.right + PADDING_X;
+
+      const heading = document.querySelector('h1');
+      const headingRect = heading?.getBoundingClientRect();
+      if (headingRect && headingRect.height > 0 && headingRect.bottom > 0 && headingRect.top < window.innerHeight) {
+        top = Math.min(top, headingRect.top - 16);
+        bottom = Math.max(bottom, headingRect.bottom + 16);
+        left = Math.min(left, headingRect.left - 16);
+        right = Math.max(right, headingRect.right + 16);
+      }
+
+      const x = Math.max(0, left);
+      const y = Math.max(0, top);
+      resolve({
+        x,
+        y,
+        width: Math.min(window.innerWidth, right) - x,
+        height: Math.min(window.innerHeight, bottom) - y,
+        viewportWidth: window.innerWidth,
+        viewportHeight: window.innerHeight,
+      });
+    }));
+  });
+}
+
+/**
+ * Self-contained function that waits for a page to finish rendering before
+ * its content is captured.
+ *
+ * Injected with `browser.scripting.executeScript()` like the functions above.
+ * Many shops fill in the price and availability with client-side scripts
+ * after the load event, so the capture would read "Loading…" or an empty
+ * price slot. Resolves once the document has loaded, the DOM has not changed
+ * for `quietMs`, no price element is itself a loading placeholder, and at
+ * least one of them shows a number (or there are none) — or after
+ * `timeoutMs` at the latest. `settled` is `false` when the timeout was hit.
+ */
+export function waitForDomSettle(quietMs: number, timeoutMs: number): Promise<{ settled: boolean; waitedMs: number }> {
+  const PRICE_SELECTOR = '[itemprop="price"], [data-price], [class*="price" i], [id*="price" i]';
+  const LOADING_SELECTOR = '[aria-busy="true"], [class*="skeleton" i], [class*="shimmer" i]';
+
+  const start = performance.now();
+
+  const isVisible = (el: Element) => {
+    const rect = el.getBoundingClientRect();
+    return rect.width > 0 && rect.height > 0;
+  };
+
+  // A price slot still waiting for its value: present, but without a digit
+  // in any of them, or one of them marked as a loading placeholder. Only the
+  // price element itself counts — a spinner inside a price block next to an
+  // already shown price does not hold the capture back.
+  const isPricePending = () => {
+    const prices = Array.from(document.querySelectorAll(PRICE_SELECTOR)).filter(
+      (el) => isVisible(el) && !el.closest('nav, header, footer'),
+    );
+    if (prices.some((el) => el.matches(LOADING_SELECTOR))) return true;
+    return prices.length > 0 && !prices.some((el) => /\d/.test(el.textContent ?? ''));
+  };
+
+  return new Promise((resolve) => {
+    let lastMutation = performance.now();
+    const observer = new MutationObserver(() => {
+      lastMutation = performance.now();
+    });
+    // Only content changes count: carousels and animations keep changing
+    // attributes on pages that are otherwise done.
+    observer.observe(document.documentElement, { childList: true, subtree: true, characterData: true });
+
+    const finish = (settled: boolean) => {
+      observer.disconnect();
+      clearInterval(timer);
+      resolve({ settled, waitedMs: Math.round(performance.now() - start) });
+    };
+
+    const timer = setInterval(() => {
+      const now = performance.now();
+      if (now - start >= timeoutMs) {
+        finish(false);
+      } else if (
+        document.readyState === 'complete' &&
+        now - lastMutation >= quietMs &&
+        !isPricePending()
+      ) {
+        finish(true);
+      }
+    }, 100);
+  });
+}
+
+/**
+ * Self-contained function that reads what the user has already chosen on the
+ * product page: the quantity typed next to the add-to-cart button and the
+ * selected options (size / colour dropdowns, radio buttons and swatches).
+ *
+ * Injected with `browser.scripting.executeScript()` like the functions above.
+ * Only controls around the add-to-cart button count — the nearest `<form>`,
+ * or the closest ancestor holding option controls — so sort and filter
+ * dropdowns elsewhere on the page are ignored. Placeholder choices
+ * ("Choose a size") are skipped. The quantity is only returned when it says
+ * something: above 1, or changed from what the page preset. Returns no
+ * options and no quantity when no add-to-cart button is found.
+ */
+export function extractPageSelections(): {
+  quantity?: number;
+  options: Array<{ name: string; value: string }>;
+} {
+  const ADD_TO_CART_PATTERN =
+    /add to (cart|basket|bag|trolley)|buy now|do koszyka|kup teraz|in den warenkorb|ajouter au panier|añadir al carrito|aggiungi al carrello/i;
+  const ADD_TO_CART_SELECTOR =
+    '[name="add-to-cart"], [id*="add-to-cart" i], [class*="add-to-cart" i], [id*="addtocart" i], [class*="addtocart" i], [data-action*="add-to-cart" i]';
+  const OPTION_CONTROL_SELECTOR =
+    'select, input[type="radio"], [role="radio"], [role="option"], [aria-pressed], [class*="swatch" i]';
+  const QUANTITY_SELECTOR =
+    'input[name*="qty" i], input[name*="quantity" i], input[id*="qty" i], input[id*="quantity" i], input[class*="qty" i], input[class*="quantity" i], input[type="number"]';
+  const PLACEHOLDER_PATTERN = /^(choose|select|pick|wybierz|auswählen|wählen|choisir|seleccion)/i;
+  const MAX_OPTIONS = 20;
+
+  const clean = (text: string | null | undefined) => (text ?? '').replace(/\s+/g, ' ').trim();
+  // First non-empty text: an empty label or legend falls through to the next source.
+  const firstText = (...texts: Array<string | null | undefined>) => texts.map(clean).find(Boolean) ?? '';
+  const isVisible = (el: Element) => {
+    const rect = el.getBoundingClientRect();
+    return rect.width > 0 && rect.height > 0;
+  };
+
+  // --- The add-to-cart button and the part of the page around it ----------
+
+  const button =
+    Array.from(document.querySelectorAll('button, input[type="submit"], a[role="button"], [role="button"]')).find(
+      (el) =>
+        isVisible(el) &&
+        ADD_TO_CART_PATTERN.test(clean((el as HTMLElement).innerText || (el as HTMLInputElement).value || el.getAttribute('aria-label'))),
+    ) ?? Array.from(document.querySelectorAll(ADD_TO_CART_SELECTOR)).find(isVisible);
+  if (!button) return { options: [] };
+
+  let scope: Element | null = button.closest('form');
+  if (!scope) {
+    scope = button.parentElement;
+    for (let depth = 0; scope && scope !== document.body && depth < 6; depth++) {
+      if (scope.querySelector(OPTION_CONTROL_SELECTOR)) break;
+      scope = scope.parentElement;
+    }
+  }
+  if (!scope || scope === document.body || scope === document.documentElement) {
+    scope = button.parentElement ?? document.body;
+  }
+
+  // --- Quantity -------------------------------------------------------------
+
+  let quantity: number | undefined;
+  const quantityInput = Array.from(scope.querySelectorAll<HTMLInputElement>(QUANTITY_SELECTOR)).find(
+    (input) => input.type !== 'hidden' && !input.disabled,
+  );
+  if (quantityInput) {
+    const value = parseInt(quantityInput.value, 10);
+    const preset = parseInt(quantityInput.defaultValue, 10);
+    if (Number.isFinite(value) && value >= 1 && value <= 9999 && (value > 1 || value !== preset)) quantity = value;
+  }
+
+  // --- Selected options -----------------------------------------------------
+
+  const labelFor = (el: Element): string => {
+    const id = el.getAttribute('id');
+    const label = id ? document.querySelector(`label[for="${CSS.escape(id)}"]`) : null;
+    return firstText(
+      label?.textContent,
+      el.getAttribute('aria-label'),
+      el.closest('label')?.textContent,
+      el.getAttribute('title'),
+    );
+  };
+  // Name of a group of choices: its legend, group label or field name.
+  const groupNameFor = (el: Element): string => {
+    const group = el.closest('fieldset, [role="radiogroup"], [role="listbox"], [role="group"]');
+    const legend = group?.querySelector('legend');
+    return firstText(
+      legend?.textContent,
+      group?.getAttribute('aria-label'),
+      group?.getAttribute('aria-labelledby')
+        ? document.getElementById(group.getAttribute('aria-labelledby') ?? '')?.textContent
+        : null,
+      el.getAttribute('name'),
+      el.getAttribute('data-attribute-name'),
+      el.getAttribute('data-option-name'),
+    ).replace(/:$/, '');
+  };
+
+  const options: Array<{ name: string; value: string }> = [];
+  const add = (name: string, value: string) => {
+    const key = name.replace(/:$/, '').substring(0, 100);
+    const text = value.substring(0, 200);
+    if (!key || !text || PLACEHOLDER_PATTERN.test(text) || options.length >= MAX_OPTIONS) return;
+    if (options.some((option) => option.name.toLowerCase() === key.toLowerCase())) return;
+    options.push({ name: key, value: text });
+  };
+
+  for (const select of scope.querySelectorAll<HTMLSelectElement>('select')) {
+    if (select.disabled) continue;
+    const option = select.selectedOptions[0];
+    if (!option || !option.value) continue;
+    const name = labelFor(select) || clean(select.getAttribute('name'));
+    if (/qty|quantity|ilo[sś][cć]/i.test(name)) {
+      const value = parseInt(option.value, 10);
+      const preset = Array.from(select.options).find((o) => o.defaultSelected) ?? select.options[0];
+      if (quantity == null && Number.isFinite(value) && value >= 1 && (value > 1 || option !== preset)) quantity = value;
+      continue;
+    }
+    add(name, clean(option.textContent));
+  }
+
+  for (const radio of scope.querySelectorAll<HTMLInputElement>('input[type="radio"]:checked')) {
+    add(groupNameFor(radio), labelFor(radio) || clean(radio.value));
+  }
+
+  // Custom swatches: ARIA state first, then a "selected" / "active" class.
+  const swatches = scope.querySelectorAll(
+    '[role="radio"][aria-checked="true"], [role="option"][aria-selected="true"], [aria-pressed="true"], [class*="swatch" i][class*="selected" i], [class*="swatch" i][class*="active" i]',
+  );
+  for (const swatch of swatches) {
+    if (swatch === button) continue;
+    const value = firstText(
+      swatch.getAttribute('aria-label'),
+      swatch.getAttribute('title'),
+      swatch.getAttribute('data-value'),
+      (swatch as HTMLElement).innerText,
+    );
+    add(groupNameFor(swatch), value);
+  }
+
+  return quantity != null ? { quantity, options } : { options };
+}
@@ -0,0 +1,26 @@
+import type { ReadPdfRequest, ReadPdfResponse } from '../../lib/pdf';
+import { readPdf } from '../../lib/pdfReader';
+
+/**
+ * PDF reader entry point.
+ *
+ * A page without UI that the background opens only while it reads a PDF
+ * (see lib/pdf.ts), so pdf.js is not loaded into the background itself.
+ * Answers `READ_PDF` messages and ignores everything else.
+ */
+
+browser.runtime.onMessage.addListener((message: unknown) => {
+  if (
+    message === null ||
+    typeof message !== 'object' ||
+    (message as { type?: string }).type !== 'READ_PDF'
+  ) {
+    return undefined;
+  }
+
+  const { url } = message as ReadPdfRequest;
+  return readPdf(url).then(
+    (pdf): ReadPdfResponse => ({ ok: true, pdf }),
+    (err: unknown): ReadPdfResponse => ({ ok: false, error: err instanceof Error ? err.message : String(err) }),
+  );
+});
@@ -1,12 +1,50 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { Box, Button, Typography, Alert, Skeleton } from '@mui/material';
+import { Box, Button, Typography, Alert, Skeleton, FormControlLabel, Checkbox } from '@mui/material';
 import { useTranslation } from 'react-i18next';
 import { browser } from 'wxt/browser';
 import { useAuth } from '../../hooks/useAuth';
 import { useDocuments } from '../../hooks/useDocuments';
 import { sendMessage } from '../../lib/messaging';
-import { RERUM_APP_URL } from '../../lib/constants';
+import type {
+  ExtractionProgressBroadcast,
+  ExtractionSource,
+  ExtractionStep,
+  PageNavigatedBroadcast,
+  PanelActionBroadcast,
+} from '../../lib/messaging';
+import type { PageSelections, ProductSpec } from '../../lib/sanitize';
+import { matchHintsToColumns, matchSpecsToColumns } from '../../lib/columns';
+import { RERUM_APP_URL, SYSTEM_FIELDS } from '../../lib/constants';
 import { hasHostPermissionFor, requestHostPermissionFor, requestHostPermissionForAll } from '../../lib/permissions';
+import { applyVariant } from '../../lib/variants';
+import { applyOffer } from '../../lib/offers';
+import { detectCurrency, parsePrice } from '../../lib/price';
+import { convertRowPrice, findExchangeRate } from '../../lib/currency';
+import { findDuplicateRow } from '../../lib/duplicates';
+import { DEFAULT_URL_STRIP_RULES, isSameDocumentUrl, normalizeProductUrl } from '../../lib/url';
+import {
+  RECIPE_SYSTEM_FIELDS,
+  cleanRecipeFields,
+  findExtractionRecipe,
+  getRecipeOrigin,
+  upsertExtractionRecipe,
+} from '../../lib/recipes';
+import type { DuplicateMatch } from '../../lib/duplicates';
+import {
+  getDocumentCurrency,
+  setDocumentCurrency,
+  getExchangeRates,
+  setExchangeRates as storeExchangeRates,
+  getUrlStripRules,
+  setUrlStripRules as storeUrlStripRules,
+  getExtractionRecipes,
+  setExtractionRecipes as storeExtractionRecipes,
+  getSavePriceEvidence,
+  setSavePriceEvidence as storeSavePriceEvidence,
+  getSessionValue,
+  removeSessionValue,
+} from '../../lib/storage';
+import type { ExchangeRate, ExtractionRecipe, RecipeField } from '../../lib/storage';
 import type {
   PageData,
   ProductConfidence,
@@ -26,6 +64,12 @@ import DocumentPicker from '../../components/DocumentPicker';
 import SuccessConfirmation from '../../components/SuccessConfirmation';
 import OnboardingFlow from '../../components/OnboardingFlow';
 import AiColumnChips from '../../components/AiColumnChips';
+import ListingPicker from '../../components/ListingPicker';
+import SettingsDialog from '../../components/SettingsDialog';
+import type { SettingsValues } from '../../components/SettingsDialog';
+import NameDialog from '../../components/NameDialog';
+import TabItemsList from '../../components/TabItemsList';
+import RecipeDialog from '../../components/RecipeDialog';
 
 // ---------------------------------------------------------------------------
 // UI State machine
@@ -42,6 +86,9 @@ type AppState =
   | 'success'
   | 'error';
 
+/** Panel actions older than this (e.g. left over from a closed panel) are ignored. */
+const PANEL_ACTION_MAX_AGE_MS = 2 * 60 * 1000;
+
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
@@ -68,11 +115,29 @@ function App() {
   // --- Extraction -----------------------------------------------------------
   const [extractedData, setExtractedData] = useState<(ExtractedProductData & { quantity?: number; comment?: string }) | null>(null);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [selectedVariantIndex, setSelectedVariantIndex] = useState<number | null>(null);
+  const [selectedOfferIndex, setSelectedOfferIndex] = useState<number | null>(null);
+  // Quantity the user had typed or selected on the shop page, if any.
+  const [pageQuantity, setPageQuantity] = useState<number | null>(null);
+  const [priceCurrency, setPriceCurrency] = useState<string | null>(null);
+  const [extractionSource, setExtractionSource] = useState<ExtractionSource | null>(null);
+
+  // --- Element picker -------------------------------------------------------
+  // Field being filled from the page, the picked element offered for saving
+  // to the site recipe, and the latest request (older responses are ignored).
+  const [pickingField, setPickingField] = useState<string | null>(null);
+  const [pickedRule, setPickedRule] = useState<RecipeField | null>(null);
+  const [pickerError, setPickerError] = useState<string | null>(null);
+  const pickRequestRef = useRef(0);
+
+  // --- Listing pages (batch add) --------------------------------------------
+  const [selectedListUrls, setSelectedListUrls] = useState<Set<string>>(new Set());
 
   // --- Document / tab selection ---------------------------------------------
   const [selectedDocumentUuid, setSelectedDocumentUuid] = useState<string | null>(null);
   const [selectedTabId, setSelectedTabId] = useState<string | null>(null);
   const [selectedDocument, setSelectedDocument] = useState<EstimateDocumentDto | null>(null);
+  const [documentCurrency, setDocumentCurrencyState] = useState<string | null>(null);
 
   // --- Usage ----------------------------------------------------------------
   const [usage, setUsage] = useState<UsageDto | null>(null);
@@ -85,6 +150,7 @@ function App() {
   const [errorCode, setErrorCode] = useState<string | null>(null);
   const [pendingReExtract, setPendingReExtract] = useState(false);
   const [pendingExtractAfterGrant, setPendingExtractAfterGrant] = useState(false);
+  const [extractionStep, setExtractionStep] = useState<ExtractionStep>('analyzing');
 
   // --- Success info ---------------------------------------------------------
   const [successInfo, setSuccessInfo] = useState<{
@@ -92,21 +158,68 @@ function App() {
     tabName: string;
     productName: string;
     documentUuid: string;
+    productCount?: number;
+    skippedCount?: number;
+    updatedQuantity?: number;
+    evidenceSaved?: boolean;
   } | null>(null);
 
+  // --- Price evidence -------------------------------------------------------
+  // Whether "Add to Estimate" also keeps a screenshot of the supplier's price.
+  const [savePriceEvidence, setSavePriceEvidence] = useState(false);
+
   // --- Onboarding -----------------------------------------------------------
   const [showOnboarding, setShowOnboarding] = useState(false);
 
+  // --- "Create document" dialog (empty state) -------------------------------
+  const [createDocumentOpen, setCreateDocumentOpen] = useState(false);
+
+  // --- Settings -------------------------------------------------------------
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [urlStripRules, setUrlStripRules] = useState<readonly string[]>(DEFAULT_URL_STRIP_RULES);
+  const [extractionRecipes, setExtractionRecipes] = useState<ExtractionRecipe[]>([]);
+  const [recipeDialogOpen, setRecipeDialogOpen] = useState(false);
+
   // --- Restoration guard ---------------------------------------------------
   // Prevents the document restoration effect from overwriting a manual
   // selection when the documents array is re-fetched (race condition fix).
   const [hasRestoredSelection, setHasRestoredSelection] = useState(false);
+  // Tab the running extraction reads, so progress broadcasts for other tabs
+  // are ignored.
+  const extractionTabIdRef = useRef<number | null>(null);
 
   // --- appState ref ---------------------------------------------------------
   // Keeps tab event handlers up-to-date without re-registering on every state
   // change (fixes memory leak from listener churn).
   const appStateRef = useRef(appState);
   appStateRef.current = appState;
+  const activeTabIdRef = useRef(activeTabId);
+  activeTabIdRef.current = activeTabId;
+  // Tab the browser shows right now. `activeTabId` belongs to `pageData` and
+  // stays put while a preview is open; this one follows every tab switch.
+  const [visibleTabId, setVisibleTabId] = useState<number | null>(null);
+
+  // --- Stale preview --------------------------------------------------------
+  // Tab and URL the preview was extracted from (`null` for a link extracted
+  // from the context menu). When that tab moves to another page, the preview
+  // no longer matches what the user sees and is flagged as stale.
+  const [previewPage, setPreviewPage] = useState<{ tabId: number; url: string } | null>(null);
+  const previewPageRef = useRef(previewPage);
+  previewPageRef.current = previewPage;
+  const [previewStale, setPreviewStale] = useState(false);
+  // Link the preview was extracted from through the context menu. A new
+  // extraction of that preview must read the linked page, not the open one.
+  const [linkedPreviewUrl, setLinkedPreviewUrl] = useState<string | null>(null);
+  // The active tab still shows the previewed product, so the page can be
+  // used for it (element picker, price evidence).
+  const previewInActiveTab = previewPage != null && previewPage.tabId === visibleTabId && !previewStale;
+
+  // --- Panel actions --------------------------------------------------------
+  // ID of the last action handled, so a broadcast and the copy kept in
+  // session storage are not both applied.
+  const lastPanelActionIdRef = useRef<string | null>(null);
+  const handlePanelActionRef = useRef<(broadcast: PanelActionBroadcast) => void>(() => {});
 
   // =========================================================================
   // Effects
@@ -121,6 +234,25 @@ function App() {
       setConfidence('low');
       setExtractedData(null);
       setSelectedImage(null);
+      setSelectedVariantIndex(null);
+      setSelectedOfferIndex(null);
+      setPriceCurrency(null);
+      setPageQuantity(null);
+      setExtractionSource(null);
+      // A running picker is cancelled by the effect that follows appState.
+      setPickedRule(null);
+      setPickerError(null);
+      setSelectedListUrls(new Set());
+      setVisibleTabId(null);
+      setPreviewPage(null);
+      setPreviewStale(false);
+      setLinkedPreviewUrl(null);
+      setSavePriceEvidence(false);
+      setPendingReExtract(false);
+      setPendingExtractAfterGrant(false);
+      setCreateDocumentOpen(false);
+      setRecipeDialogOpen(false);
+      extractionTabIdRef.current = null;
       setSelectedDocumentUuid(null);
       setSelectedTabId(null);
       setSelectedDocument(null);
@@ -146,6 +278,15 @@ function App() {
     }
   }, []);
 
+  // Load the exchange rate table, URL cleanup rules, site recipes and the
+  // price evidence preference
+  useEffect(() => {
+    getExchangeRates().then(setExchangeRates).catch(() => {});
+    getUrlStripRules().then(setUrlStripRules).catch(() => {});
+    getExtractionRecipes().then(setExtractionRecipes).catch(() => {});
+    getSavePriceEvidence().then(setSavePriceEvidence).catch(() => {});
+  }, []);
+
   // Derive app state from auth loading.
   // Uses a functional updater to avoid including appState in the dep array,
   // which would cause the effect to re-run on every state transition.
@@ -169,11 +310,13 @@ function App() {
       if (tabResponse.type !== 'ACTIVE_TAB_RESULT' || tabResponse.tabId == null) {
         setPageData(null);
         setActiveTabId(null);
+        setVisibleTabId(null);
         setConfidence('low');
         return;
       }
 
       setActiveTabId(tabResponse.tabId);
+      setVisibleTabId(tabResponse.tabId);
       const tabUrl = tabResponse.url;
 
       try {
@@ -212,6 +355,22 @@ function App() {
     }
   }, [isAuthenticated, fetchPageData]);
 
+  // Load the locally stored currency of the selected document.
+  useEffect(() => {
+    if (!selectedDocumentUuid) {
+      setDocumentCurrencyState(null);
+      return;
+    }
+    getDocumentCurrency(selectedDocumentUuid)
+      .then(setDocumentCurrencyState)
+      .catch(() => setDocumentCurrencyState(null));
+  }, [selectedDocumentUuid]);
+
+  // Clear the listing selection whenever the page changes.
+  useEffect(() => {
+    setSelectedListUrls(new Set());
+  }, [pageData]);
+
   // Fetch subscription usage
   useEffect(() => {
     if (!isAuthenticated) return;
@@ -241,10 +400,28 @@ function App() {
       if (state === 'idle' || state === 'permission-needed') {
         if (state === 'permission-needed') setAppState('idle');
         void fetchPageData();
+        return;
+      }
+      // Page data stays with the preview, but the previewed page may no
+      // longer be the one in front.
+      sendMessage({ type: 'GET_ACTIVE_TAB' })
+        .then((res) => setVisibleTabId(res.type === 'ACTIVE_TAB_RESULT' ? res.tabId : null))
+        .catch(() => setVisibleTabId(null));
+    };
+
+    const flagStalePreview = (tabId: number, url: string) => {
+      const previewPage = previewPageRef.current;
+      if (
+        appStateRef.current === 'preview' &&
+        previewPage?.tabId === tabId &&
+        !isSameDocumentUrl(previewPage.url, url)
+      ) {
+        setPreviewStale(true);
       }
     };
 
-    const handleTabUpdated = (_tabId: number, changeInfo: { status?: string }) => {
+    const handleTabUpdated = (tabId: number, changeInfo: { status?: string; url?: string }) => {
+      if (changeInfo.url) flagStalePreview(tabId, changeInfo.url);
       const state = appStateRef.current;
       if (changeInfo.status === 'complete' && (state === 'idle' || state === 'permission-needed')) {
         if (state === 'permission-needed') setAppState('idle');
@@ -252,12 +429,33 @@ function App() {
       }
     };
 
+    // Same-document navigations (single-page shops) never complete a load;
+    // the background reports them once the new page has rendered.
+    const handleMessage = (message: unknown) => {
+      if (
+        message === null ||
+        typeof message !== 'object' ||
+        (message as { type?: string }).type !== 'PAGE_NAVIGATED'
+      ) {
+        return;
+      }
+      const { tabId, url } = message as PageNavigatedBroadcast;
+      flagStalePreview(tabId, url);
+      const state = appStateRef.current;
+      if (tabId === activeTabIdRef.current && (state === 'idle' || state === 'permission-needed')) {
+        if (state === 'permission-needed') setAppState('idle');
+        void fetchPageData();
+      }
+    };
+
     browser.tabs.onActivated.addListener(handleTabActivated);
     browser.tabs.onUpdated.addListener(handleTabUpdated);
+    browser.runtime.onMessage.addListener(handleMessage);
 
     return () => {
       browser.tabs.onActivated.removeListener(handleTabActivated);
       browser.tabs.onUpdated.removeListener(handleTabUpdated);
+      browser.runtime.onMessage.removeListener(handleMessage);
     };
   }, [isAuthenticated, fetchPageData]); // appState removed — accessed via ref instead
 
@@ -290,6 +488,29 @@ function App() {
     return () => browser.runtime.onMessage.removeListener(handleMessage);
   }, [refetchAuth]);
 
+  // Follow the steps of a running extraction for the progress spinner, and
+  // start from the first step again once it is over.
+  useEffect(() => {
+    if (appState !== 'extracting') {
+      setExtractionStep('analyzing');
+      return;
+    }
+    const handleMessage = (message: unknown) => {
+      if (
+        message !== null &&
+        typeof message === 'object' &&
+        (message as { type?: string }).type === 'EXTRACTION_PROGRESS'
+      ) {
+        const progress = message as ExtractionProgressBroadcast;
+        if (progress.tabId === extractionTabIdRef.current) {
+          setExtractionStep(progress.step);
+        }
+      }
+    };
+    browser.runtime.onMessage.addListener(handleMessage);
+    return () => browser.runtime.onMessage.removeListener(handleMessage);
+  }, [appState]);
+
   // I6 FIX: Re-fetch documents when Side Panel becomes visible
   useEffect(() => {
     if (!isAuthenticated) return;
@@ -308,18 +529,202 @@ function App() {
     };
   }, [isAuthenticated, refetchDocuments]);
 
+  // =========================================================================
+  // Custom field labels from document column definitions
+  // =========================================================================
+
+  const columnDefinitions = useMemo(() => {
+    return selectedDocument?.documentContent.column_definitions ?? null;
+  }, [selectedDocument]);
+
+  // Rows already in the selected tab, shown under the document picker.
+  const selectedTabRecords = useMemo(() => {
+    const tab = (selectedDocument?.documentContent.tabs ?? []).find((t) => t.tab_id === selectedTabId);
+    return tab?.estimate_record_list ?? null;
+  }, [selectedDocument, selectedTabId]);
+
+  // =========================================================================
+  // Variant selection
+  // =========================================================================
+
+  const selectedVariant = useMemo(() => {
+    return selectedVariantIndex != null ? pageData?.variants?.[selectedVariantIndex] ?? null : null;
+  }, [pageData, selectedVariantIndex]);
+
+  const selectedOffer = useMemo(() => {
+    return selectedOfferIndex != null ? pageData?.offers?.[selectedOfferIndex] ?? null : null;
+  }, [pageData, selectedOfferIndex]);
+
+  // Offer the chosen variant's image (and an image picked from the page's
+  // context menu) in the picker even when it was not among the images found
+  // on the page.
+  const previewImages = useMemo(() => {
+    const images = pageData?.images ?? [];
+    const extra = [selectedVariant?.image, selectedImage].filter(
+      (url): url is string => !!url && !images.includes(url),
+    );
+    return [...new Set(extra), ...images];
+  }, [pageData, selectedVariant, selectedImage]);
+
+  // Whether a row can be added: a tab is chosen and the document is not locked.
+  const canAddToDocument = useMemo(() => {
+    return (
+      !!selectedDocumentUuid &&
+      !!selectedTabId &&
+      documents.find((d) => d.uuid === selectedDocumentUuid)?.isLocked !== true
+    );
+  }, [selectedDocumentUuid, selectedTabId, documents]);
+
+  // Site the current page belongs to, and the recipe saved for it.
+  const pageOrigin = useMemo(() => getRecipeOrigin(pageData?.url), [pageData]);
+  const pageRecipe = useMemo(() => {
+    return findExtractionRecipe(extractionRecipes, pageData?.url);
+  }, [extractionRecipes, pageData]);
+
+  // =========================================================================
+  // Currency conversion
+  // =========================================================================
+
+  // Rate from the page currency to the document currency, or `null` when the
+  // currencies match, either is unknown, or no rate is configured.
+  const exchangeRate = useMemo(() => {
+    if (!priceCurrency || !documentCurrency || priceCurrency === documentCurrency) return null;
+    return findExchangeRate(exchangeRates, priceCurrency, documentCurrency);
+  }, [priceCurrency, documentCurrency, exchangeRates]);
+
+  // =========================================================================
+  // Row to add
+  // =========================================================================
+
+  // The previewed product as an estimate row (snake_case, JSONB interior).
+  // A foreign-currency price is converted into the document currency, with
+  // the original price and rate kept in custom_fields for auditing.
+  const candidateRow = useMemo((): EstimateRecordApi | null => {
+    if (!extractedData) return null;
+
+    // The price is normalised when it enters the preview (extraction,
+    // picker, variant, offer, edit); parsing it again would misread
+    // "0.125" as 125 on a page whose locale groups by ".".
+    const { price, customFields } = convertRowPrice(
+      extractedData.pricePerUnit ?? null,
+      priceCurrency,
+      exchangeRate,
+      extractedData.customFields,
+    );
+
+    // Prefer the chosen seller's or variant's own link, then the page's canonical URL.
+    const productUrl =
+      selectedOffer?.url ?? selectedVariant?.url ?? pageData?.canonicalUrl ?? pageData?.url ?? extractedData.productUrl;
+
+    return {
+      product_name: extractedData.productName ?? null,
+      manufacturer: extractedData.manufacturer ?? null,
+      price_per_unit: price,
+      product_image_url: selectedImage ?? extractedData.productImageUrl ?? null,
+      product_url: productUrl ? normalizeProductUrl(productUrl, urlStripRules) : null,
+      quantity: extractedData.quantity ?? 1,
+      comment: extractedData.comment ?? null,
+      custom_fields: customFields,
+    };
+  }, [extractedData, pageData, exchangeRate, priceCurrency, selectedImage, selectedVariant, selectedOffer, urlStripRules]);
+
+  // An existing row of the selected tab for the same product, if any.
+  const duplicateMatch = useMemo(() => {
+    return findDuplicateRow(selectedTabRecords, candidateRow, columnDefinitions, urlStripRules);
+  }, [selectedTabRecords, candidateRow, columnDefinitions, urlStripRules]);
+
+  // The add-to-estimate shortcut hit the duplicate warning: say why nothing
+  // was added until the match changes.
+  const [duplicateShortcutBlocked, setDuplicateShortcutBlocked] = useState(false);
+  const increaseQuantityButtonRef = useRef<HTMLButtonElement>(null);
+  useEffect(() => {
+    setDuplicateShortcutBlocked(false);
+  }, [duplicateMatch]);
+
   // =========================================================================
   // Handlers
   // =========================================================================
 
+  // Show an EXTRACT_RESULT for `page` in the preview.
+  const applyExtractionResult = useCallback((
+    data: ExtractedProductData,
+    page: PageData,
+    source: ExtractionSource,
+    specs: ProductSpec[],
+    selections?: PageSelections,
+  ) => {
+    setExtractionSource(source);
+    setPreviewStale(false);
+    // Spec table values, the options chosen on the page (size, colour) and
+    // the page's identifiers (GTIN, SKU, MPN, stock status) fill custom
+    // columns the extraction left empty.
+    const customFields = {
+      ...matchSpecsToColumns(specs, columnDefinitions),
+      ...matchSpecsToColumns(selections?.options, columnDefinitions),
+      ...matchHintsToColumns(page.hints, columnDefinitions, (availability) => t(`availability.${availability}`)),
+    };
+    for (const [key, value] of Object.entries(data.customFields ?? {})) {
+      if (value) customFields[key] = value;
+    }
+    // The AI returns the price as printed on the page ("1 299,00 zł");
+    // normalise it with the page locale and remember its currency.
+    const rawPrice = data.pricePerUnit;
+    setPriceCurrency(detectCurrency(rawPrice) ?? page.hints.currency ?? null);
+    setExtractedData({
+      ...data,
+      pricePerUnit: parsePrice(rawPrice, page.locale) ?? rawPrice,
+      customFields: Object.keys(customFields).length > 0 ? customFields : null,
+      quantity: selections?.quantity,
+    });
+    setPageQuantity(selections?.quantity ?? null);
+    if (page.images.length > 0) {
+      // Keep an image the user already picked (e.g. from the context menu).
+      setSelectedImage((current) => current ?? data.productImageUrl ?? page.images[0] ?? null);
+    }
+    // Pre-select the variant whose URL is the page being viewed (shops
+    // usually encode the chosen colour/size in the URL). The AI result
+    // already describes that variant, so it is not re-applied here.
+    const pageVariant = (page.variants ?? []).findIndex((v) => v.url === page.url);
+    setSelectedVariantIndex(pageVariant >= 0 ? pageVariant : null);
+    // Marketplace offers are left for the user to choose.
+    setSelectedOfferIndex(null);
+    setAppState('preview');
+  }, [columnDefinitions, t]);
+
+  // Map a failed extraction to a user-facing message and the error screen.
+  const showExtractionError = useCallback((errorResponse: { status?: number; error?: string; errorCode?: string }) => {
+    const status = errorResponse.status ?? 0;
+    let message = errorResponse.error ?? t('extraction.failed');
+
+    if (status === 400) {
+      message = t('extraction.noData');
+    } else if (status === 401) {
+      message = t('auth.sessionExpired');
+      refetchAuth();
+    } else if (status === 403 && errorResponse.errorCode === 'USAGE_LIMIT_EXCEEDED') {
+      message = t('extraction.limitReached');
+    } else if (status === 503) {
+      message = t('extraction.blocked');
+    } else if (errorResponse.errorCode === 'HOST_PERMISSION_REQUIRED') {
+      message = t('contextMenu.noPermission');
+    }
+
+    setErrorMessage(message);
+    setErrorStatus(status);
+    setErrorCode(errorResponse.errorCode ?? null);
+    setAppState('error');
+  }, [refetchAuth, t]);
+
   // The actual extraction logic, called after permission is confirmed.
-  const doExtract = useCallback(async () => {
+  // `skipRecipe` forces AI extraction on a site with a saved recipe.
+  const doExtract = useCallback(async (skipRecipe = false) => {
     if (!pageData?.url) return;
 
     setAppState('extracting');
     setErrorMessage(null);
     setErrorStatus(null);
     setErrorCode(null);
+    extractionTabIdRef.current = activeTabId;
 
     try {
       const response = await sendMessage({
@@ -327,37 +732,18 @@ function App() {
         productUrl: pageData.url,
         documentUuid: selectedDocumentUuid ?? undefined,
         tabId: activeTabId ?? undefined,
+        skipRecipe,
       });
 
       if (response.type === 'EXTRACT_RESULT') {
-        setExtractedData(response.data);
-        if (pageData.images.length > 0) {
-          setSelectedImage(response.data.productImageUrl ?? pageData.images[0] ?? null);
-        }
-        setAppState('preview');
+        setPreviewPage(activeTabId != null ? { tabId: activeTabId, url: pageData.url } : null);
+        setLinkedPreviewUrl(null);
+        applyExtractionResult(response.data, pageData, response.source, response.specs, response.selections);
       }
     } catch (err) {
-      const errorResponse = err as { status?: number; error?: string; errorCode?: string };
-      const status = errorResponse.status ?? 0;
-      let message = errorResponse.error ?? t('extraction.failed');
-
-      if (status === 400) {
-        message = t('extraction.noData');
-      } else if (status === 401) {
-        message = t('auth.sessionExpired');
-        refetchAuth();
-      } else if (status === 403 && errorResponse.errorCode === 'USAGE_LIMIT_EXCEEDED') {
-        message = t('extraction.limitReached');
-      } else if (status === 503) {
-        message = t('extraction.blocked');
-      }
-
-      setErrorMessage(message);
-      setErrorStatus(status);
-      setErrorCode(errorResponse.errorCode ?? null);
-      setAppState('error');
+      showExtractionError(err as { status?: number; error?: string; errorCode?: string });
     }
-  }, [pageData, activeTabId, selectedDocumentUuid, refetchAuth, t]);
+  }, [pageData, activeTabId, selectedDocumentUuid, applyExtractionResult, showExtractionError]);
 
   // Check permission and either show the choice UI or proceed to extraction.
   const handleExtract = useCallback(async () => {
@@ -405,35 +791,77 @@ function App() {
     }
   }, [fetchPageData, t]);
 
-  const handleAddToEstimate = useCallback(async () => {
-    if (!extractedData || !selectedDocumentUuid || !selectedTabId) return;
+  // Add the previewed product as a new row or, when `duplicate` is given,
+  // raise the quantity of that existing row instead.
+  const saveRow = useCallback(async (duplicate: DuplicateMatch | null) => {
+    if (!extractedData || !candidateRow || !selectedDocumentUuid || !selectedTabId) return;
 
     setAppState('saving');
     setErrorMessage(null);
     setErrorStatus(null);
     setErrorCode(null);
 
+    // Evidence uploaded for a row that then fails to be added is removed again.
+    let evidenceUuid: string | null = null;
+    const discardEvidence = () => {
+      if (!evidenceUuid) return;
+      sendMessage({ type: 'DELETE_PRICE_EVIDENCE', documentUuid: selectedDocumentUuid, evidenceUuid })
+        .catch(() => {});
+    };
+
     try {
-      // Build the row in snake_case format for the JSONB interior
-      const row: EstimateRecordApi = {
-        product_name: extractedData.productName ?? null,
-        manufacturer: extractedData.manufacturer ?? null,
-        price_per_unit: extractedData.pricePerUnit ?? null,
-        product_image_url: selectedImage ?? extractedData.productImageUrl ?? null,
-        product_url: pageData?.url ?? extractedData.productUrl ?? null,
-        quantity: extractedData.quantity ?? 1,
-        comment: extractedData.comment ?? null,
-        custom_fields: extractedData.customFields ?? null,
-      };
+      // Keep a screenshot of the price as the supplier showed it and link it
+      // from the new row. A failed capture does not block adding the row.
+      let row = candidateRow;
+      let evidenceSaved: boolean | undefined;
+      // Only the tab the product was extracted from, still on that page,
+      // shows its price.
+      if (!duplicate && savePriceEvidence && previewInActiveTab && previewPage) {
+        try {
+          const evidence = await sendMessage({
+            type: 'UPLOAD_PRICE_EVIDENCE',
+            documentUuid: selectedDocumentUuid,
+            tabId: previewPage.tabId,
+            pageUrl: previewPage.url,
+            productUrl: candidateRow.product_url,
+            price: extractedData.pricePerUnit ?? null,
+            currency: priceCurrency,
+          });
+          if (evidence.type === 'PRICE_EVIDENCE_RESULT') {
+            evidenceUuid = evidence.evidenceUuid;
+            row = {
+              ...candidateRow,
+              custom_fields: {
+                ...(candidateRow.custom_fields ?? {}),
+                price_evidence_id: evidence.evidenceUuid,
+                price_evidence_captured_at: evidence.capturedAt,
+              },
+            };
+            evidenceSaved = true;
+          }
+        } catch {
+          evidenceSaved = false;
+        }
+      }
 
-      const response = await sendMessage({
-        type: 'ADD_ROW_TO_DOCUMENT',
-        documentUuid: selectedDocumentUuid,
-        tabId: selectedTabId,
-        row,
-      });
+      // The background finds the row again on fresh data before raising it.
+      const response = duplicate
+        ? await sendMessage({
+            type: 'INCREASE_ROW_QUANTITY',
+            documentUuid: selectedDocumentUuid,
+            tabId: selectedTabId,
+            product: candidateRow,
+            quantity: candidateRow.quantity ?? 1,
+          })
+        : await sendMessage({
+            type: 'ADD_ROW_TO_DOCUMENT',
+            documentUuid: selectedDocumentUuid,
+            tabId: selectedTabId,
+            row,
+          });
 
-      if (response.type === 'ADD_ROW_RESULT' && response.success) {
+      const isRowResult = response.type === 'ADD_ROW_RESULT' || response.type === 'UPDATE_ROW_RESULT';
+      if (isRowResult && response.success) {
         const docName = documents.find((d) => d.uuid === selectedDocumentUuid)?.documentName ?? 'Document';
         const tabName = (selectedDocument?.documentContent.tabs ?? []).find((tab) => tab.tab_id === selectedTabId)?.tab_name ?? 'Tab';
 
@@ -442,6 +870,8 @@ function App() {
           tabName,
           productName: extractedData.productName ?? 'Product',
           documentUuid: selectedDocumentUuid,
+          updatedQuantity: response.type === 'UPDATE_ROW_RESULT' ? response.quantity : undefined,
+          evidenceSaved,
         });
         setAppState('success');
 
@@ -460,9 +890,9 @@ function App() {
             })
             .catch(() => {});
         }
-      } else if (response.type === 'ADD_ROW_RESULT') {
+      } else if (isRowResult) {
         // Server returned a structured error (4xx). The background handler caught
-        // ApiError and returned ADD_ROW_RESULT { success: false } rather than
+        // ApiError and returned a { success: false } result rather than
         // throwing, so sendMessage did not reject — handle here.
         const status = response.status;
         let message = response.error ?? t('error.addFailed');
@@ -476,9 +906,12 @@ function App() {
           message = t('error.tabGone');
         } else if (status === 404) {
           message = t('error.docNotFound');
+        } else if (response.errorCode === 'ROW_CHANGED') {
+          message = t('error.rowChanged');
         }
         // For 403 (locked or row limit), use the server's localized message directly.
 
+        discardEvidence();
         setErrorMessage(message);
         setErrorStatus(status);
         setErrorCode(response.errorCode ?? null);
@@ -487,7 +920,7 @@ function App() {
     } catch (err) {
       // Handles ERROR responses thrown by sendMessage (non-ApiError exceptions
       // re-thrown by the background SW) and network failures.
-      // handleAddRowToDocument catches all ApiErrors before they reach here, so
+      // The row handlers catch all ApiErrors before they reach here, so
       // this path only fires on unexpected failures (e.g. SW crash, fetch abort).
       const errorResponse = err as { status?: number; error?: string };
       const status = errorResponse.status ?? null;
@@ -500,19 +933,239 @@ function App() {
         refetchAuth();
       }
 
+      discardEvidence();
+      setErrorMessage(message);
+      setErrorStatus(status);
+      setAppState('error');
+    }
+  }, [
+    extractedData,
+    candidateRow,
+    selectedDocumentUuid,
+    selectedTabId,
+    savePriceEvidence,
+    previewInActiveTab,
+    previewPage,
+    priceCurrency,
+    documents,
+    selectedDocument,
+    refetchAuth,
+    t,
+  ]);
+
+  const handleSavePriceEvidenceChange = useCallback((enabled: boolean) => {
+    setSavePriceEvidence(enabled);
+    storeSavePriceEvidence(enabled).catch(() => {});
+  }, []);
+
+  const handleAddToEstimate = useCallback(() => saveRow(null), [saveRow]);
+
+  const handleIncreaseQuantity = useCallback(() => saveRow(duplicateMatch), [saveRow, duplicateMatch]);
+
+  // Batch add: every ticked listing item becomes its own row, built from the
+  // data on the listing card (no AI extraction per product).
+  const handleAddSelected = useCallback(async () => {
+    const items = (pageData?.listItems ?? []).filter((item) => selectedListUrls.has(item.url));
+    if (items.length === 0 || !selectedDocumentUuid || !selectedTabId) return;
+
+    setErrorMessage(null);
+    setErrorStatus(null);
+    setErrorCode(null);
+
+    // Normalised like a single add: prices in the page's currency converted
+    // into the document's, tracking parameters stripped from the links.
+    // Products the tab already has are left out.
+    const currency = pageData?.hints.currency ?? null;
+    const rate = currency && documentCurrency && currency !== documentCurrency
+      ? findExchangeRate(exchangeRates, currency, documentCurrency)
+      : null;
+    const rows: EstimateRecordApi[] = [];
+    for (const item of items) {
+      const { price, customFields } = convertRowPrice(item.price ?? null, currency, rate, null);
+      const row: EstimateRecordApi = {
+        product_name: item.name ?? null,
+        manufacturer: null,
+        price_per_unit: price,
+        product_image_url: item.image ?? null,
+        product_url: normalizeProductUrl(item.url, urlStripRules),
+        quantity: 1,
+        comment: null,
+        custom_fields: customFields,
+      };
+      if (!findDuplicateRow([...(selectedTabRecords ?? []), ...rows], row, columnDefinitions, urlStripRules)) {
+        rows.push(row);
+      }
+    }
+    const skippedCount = items.length - rows.length;
+    if (rows.length === 0) {
+      setErrorMessage(t('listing.allDuplicates'));
+      setAppState('error');
+      return;
+    }
+
+    setAppState('saving');
+
+    try {
+      const response = await sendMessage({
+        type: 'ADD_ROWS_TO_DOCUMENT',
+        documentUuid: selectedDocumentUuid,
+        tabId: selectedTabId,
+        rows,
+      });
+      if (response.type !== 'ADD_ROWS_RESULT') return;
+
+      if (response.added > 0) {
+        // Silently refresh the selected document so tab data stays current
+        sendMessage({ type: 'FETCH_DOCUMENT', documentUuid: selectedDocumentUuid })
+          .then((res) => {
+            if (res.type === 'DOCUMENT_RESULT') setSelectedDocument(res.document);
+          })
+          .catch(() => {});
+      }
+
+      if (response.failed === 0) {
+        const docName = documents.find((d) => d.uuid === selectedDocumentUuid)?.documentName ?? 'Document';
+        const tabName = (selectedDocument?.documentContent.tabs ?? []).find((tab) => tab.tab_id === selectedTabId)?.tab_name ?? 'Tab';
+
+        setSuccessInfo({
+          documentName: docName,
+          tabName,
+          productName: rows[0]?.product_name ?? 'Product',
+          documentUuid: selectedDocumentUuid,
+          productCount: response.added,
+          skippedCount,
+        });
+        setAppState('success');
+        return;
+      }
+
+      const status = response.status ?? 0;
+      let message = response.error ?? t('error.addFailed');
+      if (status === 0) {
+        message = t('error.network');
+      } else if (status === 401) {
+        message = t('auth.sessionExpired');
+        refetchAuth();
+      } else if (status === 400) {
+        message = t('error.tabGone');
+      } else if (status === 404) {
+        message = t('error.docNotFound');
+      }
+      if (response.added > 0) {
+        message = t('listing.partialFailure', { added: response.added, total: rows.length, error: message });
+      }
+
       setErrorMessage(message);
       setErrorStatus(status);
+      setErrorCode(response.errorCode ?? null);
+      setAppState('error');
+    } catch (err) {
+      const errorResponse = err as { status?: number; error?: string };
+      const status = errorResponse.status ?? null;
+      setErrorMessage(status === 0 ? t('error.network') : errorResponse.error ?? t('error.addFailed'));
+      setErrorStatus(status);
       setAppState('error');
     }
-  }, [extractedData, selectedDocumentUuid, selectedTabId, selectedImage, pageData, documents, selectedDocument, refetchAuth, t]);
+  }, [
+    pageData, selectedListUrls, selectedDocumentUuid, selectedTabId, documents, selectedDocument, documentCurrency,
+    exchangeRates, selectedTabRecords, columnDefinitions, urlStripRules, refetchAuth, t,
+  ]);
 
   const handleDataChange = useCallback((data: ExtractedProductData & { quantity?: number; comment?: string }) => {
     setExtractedData(data);
   }, []);
 
+  const handleVariantChange = useCallback((index: number) => {
+    const variant = pageData?.variants?.[index];
+    if (!variant) return;
+    setSelectedVariantIndex(index);
+    setExtractedData((prev) => (prev ? applyVariant(prev, variant, columnDefinitions) : prev));
+    if (variant.image) {
+      setSelectedImage(variant.image);
+    }
+  }, [pageData, columnDefinitions]);
+
+  // Quote the chosen seller's offer: its price, link and currency, with the
+  // seller written into a "Seller" column or the comment.
+  const handleOfferChange = useCallback((index: number) => {
+    const offer = pageData?.offers?.[index];
+    if (!offer) return;
+    setSelectedOfferIndex(index);
+    setExtractedData((prev) => (
+      prev
+        ? applyOffer(prev, offer, selectedOffer, columnDefinitions, (seller) => t('offers.sellerNote', { seller }))
+        : prev
+    ));
+    // An offer without its own currency is in the page's currency, not in
+    // the one of the offer chosen before.
+    setPriceCurrency(offer.currency ?? pageData?.hints.currency ?? null);
+  }, [pageData, selectedOffer, columnDefinitions, t]);
+
+  // Copy picked page text into a preview field. A price is normalised like an
+  // extracted one.
+  const applyPickedValue = useCallback((field: string, text: string) => {
+    if (field === 'pricePerUnit') {
+      const currency = detectCurrency(text);
+      if (currency) setPriceCurrency(currency);
+    }
+    setExtractedData((prev) => {
+      if (!prev) return prev;
+      switch (field) {
+        case 'productName':
+        case 'manufacturer':
+          return { ...prev, [field]: text };
+        case 'pricePerUnit':
+          return { ...prev, pricePerUnit: parsePrice(text, pageData?.locale) ?? text };
+        case 'comment':
+          return { ...prev, comment: text };
+        default:
+          if (SYSTEM_FIELDS.has(field)) return prev;
+          return { ...prev, customFields: { ...(prev.customFields ?? {}), [field]: text } };
+      }
+    });
+  }, [pageData]);
+
+  // Start the page element picker for a field; clicking the same field's
+  // button again cancels it.
+  const handlePickField = useCallback(async (field: string) => {
+    if (activeTabId == null || !previewInActiveTab) return;
+    const requestId = ++pickRequestRef.current;
+    setPickedRule(null);
+    setPickerError(null);
+
+    if (pickingField === field) {
+      setPickingField(null);
+      sendMessage({ type: 'CANCEL_PICK_ELEMENT', tabId: activeTabId }).catch(() => {});
+      return;
+    }
+
+    setPickingField(field);
+    try {
+      const response = await sendMessage({ type: 'PICK_ELEMENT', tabId: activeTabId, hint: t('picker.pageHint') });
+      if (requestId !== pickRequestRef.current) return;
+      setPickingField(null);
+      if (response.type !== 'PICK_ELEMENT_RESULT' || !response.picked?.text) return;
+
+      const { picked } = response;
+      applyPickedValue(field, picked.text);
+      // Offer the selector for the site recipe when a recipe can hold the field.
+      if (RECIPE_SYSTEM_FIELDS.includes(field) || !SYSTEM_FIELDS.has(field)) {
+        setPickedRule({ key: field, selector: picked.selector, attribute: picked.attribute });
+      }
+    } catch (err) {
+      if (requestId !== pickRequestRef.current) return;
+      setPickingField(null);
+      const errorResponse = err as { error?: string };
+      setPickerError(errorResponse.error ?? t('error.unexpected'));
+    }
+  }, [activeTabId, previewInActiveTab, pickingField, applyPickedValue, t]);
+
   const handleAddAnother = useCallback(() => {
     setExtractedData(null);
     setSelectedImage(null);
+    setSelectedVariantIndex(null);
+    setSelectedOfferIndex(null);
+    setPriceCurrency(null);
     setSuccessInfo(null);
     setErrorMessage(null);
     setErrorStatus(null);
@@ -600,6 +1253,146 @@ function App() {
     }
   }, []);
 
+  // Create a document, reload the list so it appears in the picker, then
+  // select it like a manual pick. Errors propagate to the name dialog.
+  const handleCreateDocument = useCallback(async (documentName: string) => {
+    const response = await sendMessage({ type: 'CREATE_DOCUMENT', documentName });
+    if (response.type !== 'DOCUMENT_CREATED') return;
+    await refetchDocuments();
+    handleDocumentChange(response.document.uuid);
+  }, [refetchDocuments, handleDocumentChange]);
+
+  // Create a tab in the selected document and select it.
+  const handleCreateTab = useCallback(async (tabName: string) => {
+    if (!selectedDocumentUuid) return;
+    const response = await sendMessage({ type: 'CREATE_TAB', documentUuid: selectedDocumentUuid, tabName });
+    if (response.type !== 'TAB_CREATED') return;
+    setSelectedDocument(response.document);
+    handleTabChange(response.tabId);
+  }, [selectedDocumentUuid, handleTabChange]);
+
+  const handleDocumentCurrencyChange = useCallback((currency: string | null) => {
+    if (!selectedDocumentUuid) return;
+    setDocumentCurrencyState(currency);
+    setDocumentCurrency(selectedDocumentUuid, currency).catch(() => {});
+  }, [selectedDocumentUuid]);
+
+  // Carry out an action started outside the panel (page context menu or
+  // keyboard shortcut).
+  const handlePanelAction = useCallback((broadcast: PanelActionBroadcast) => {
+    if (lastPanelActionIdRef.current === broadcast.id) return;
+    if (Date.now() - broadcast.createdAt > PANEL_ACTION_MAX_AGE_MS) return;
+    // Never interrupt a save in progress.
+    if (appStateRef.current === 'saving') return;
+
+    lastPanelActionIdRef.current = broadcast.id;
+    removeSessionValue('pendingPanelAction').catch(() => {});
+
+    const { action } = broadcast;
+    switch (action.kind) {
+      case 'extract-page':
+        // Re-read the page the menu was opened on, then extract it. The menu
+        // click grants activeTab, so no permission prompt is needed.
+        setExtractedData(null);
+        setSelectedImage(null);
+        setSelectedVariantIndex(null);
+        setSelectedOfferIndex(null);
+        setPriceCurrency(null);
+        setSuccessInfo(null);
+        setAppState('idle');
+        setPendingExtractAfterGrant(true);
+        void fetchPageData();
+        break;
+
+      case 'link-extracting':
+        setExtractedData(null);
+        setSelectedImage(null);
+        setSelectedVariantIndex(null);
+        setSelectedOfferIndex(null);
+        setPriceCurrency(null);
+        setSuccessInfo(null);
+        setErrorMessage(null);
+        setErrorStatus(null);
+        setErrorCode(null);
+        extractionTabIdRef.current = action.tabId;
+        setAppState('extracting');
+        break;
+
+      case 'link-extracted':
+        setPreviewPage(null);
+        setLinkedPreviewUrl(action.url);
+        setPageData(action.pageData);
+        setConfidence(action.pageData.confidence);
+        applyExtractionResult(action.data, action.pageData, action.source, action.specs, action.selections);
+        break;
+
+      case 'link-failed':
+        showExtractionError(action);
+        break;
+
+      case 'add-to-estimate':
+        // Same as clicking the button: only while a preview is showing, and
+        // never past the duplicate warning without an explicit choice — the
+        // warning then explains that, with its first choice focused.
+        if (appStateRef.current === 'preview' && canAddToDocument) {
+          if (duplicateMatch) {
+            setDuplicateShortcutBlocked(true);
+            increaseQuantityButtonRef.current?.focus();
+          } else {
+            void handleAddToEstimate();
+          }
+        }
+        break;
+
+      case 'use-image':
+        setSelectedImage(action.imageUrl);
+        break;
+    }
+  }, [fetchPageData, applyExtractionResult, showExtractionError, canAddToDocument, duplicateMatch, handleAddToEstimate]);
+
+  const handleSaveSettings = useCallback((values: SettingsValues) => {
+    setExchangeRates(values.exchangeRates);
+    setUrlStripRules(values.urlStripRules ?? DEFAULT_URL_STRIP_RULES);
+    setSettingsOpen(false);
+    storeExchangeRates(values.exchangeRates).catch(() => {});
+    storeUrlStripRules(values.urlStripRules).catch(() => {});
+    setExtractionRecipes(values.extractionRecipes);
+    storeExtractionRecipes(values.extractionRecipes).catch(() => {});
+  }, []);
+
+  const handleSaveRecipe = useCallback((recipe: ExtractionRecipe) => {
+    const recipes = upsertExtractionRecipe(extractionRecipes, recipe);
+    setExtractionRecipes(recipes);
+    setRecipeDialogOpen(false);
+    storeExtractionRecipes(recipes).catch(() => {});
+  }, [extractionRecipes]);
+
+  // Add the picked element to this site's recipe, replacing the field's
+  // previous selector.
+  const handleSavePickedRule = useCallback(() => {
+    if (!pickedRule || !pageOrigin) return;
+    const otherFields = (pageRecipe?.fields ?? []).filter((f) => f.key !== pickedRule.key);
+    handleSaveRecipe({ origin: pageOrigin, fields: cleanRecipeFields([...otherFields, pickedRule]) });
+    setPickedRule(null);
+  }, [pickedRule, pageOrigin, pageRecipe, handleSaveRecipe]);
+
+  // Stop the page picker when its page is no longer in front, and drop its
+  // suggestion when the preview closes.
+  useEffect(() => {
+    if (appState === 'preview' && previewInActiveTab) return;
+    if (pickingField) {
+      pickRequestRef.current++;
+      setPickingField(null);
+      if (activeTabId != null) {
+        sendMessage({ type: 'CANCEL_PICK_ELEMENT', tabId: activeTabId }).catch(() => {});
+      }
+    }
+    if (appState !== 'preview') {
+      setPickedRule(null);
+      setPickerError(null);
+    }
+  }, [appState, previewInActiveTab, pickingField, activeTabId]);
+
   const handleOnboardingComplete = useCallback(() => {
     setShowOnboarding(false);
     // I2 FIX: Use browser.storage instead of chrome.storage
@@ -646,16 +1439,50 @@ function App() {
   // Uses pendingReExtract flag because handleDocumentChange can't call
   // doExtract directly (selectedDocumentUuid update is async).
   // Calls doExtract instead of handleExtract because permission was already
-  // granted during the initial extraction for this page.
+  // granted during the initial extraction for this page. A preview of a
+  // linked product is extracted from its link again, in a background tab.
   useEffect(() => {
     if (pendingReExtract && selectedDocumentUuid && selectedDocument && pageData?.url) {
       setPendingReExtract(false);
-      void doExtract();
+      if (linkedPreviewUrl) {
+        sendMessage({ type: 'EXTRACT_LINKED_PRODUCT', url: linkedPreviewUrl })
+          .catch((err) => showExtractionError(err as { status?: number; error?: string; errorCode?: string }));
+      } else {
+        void doExtract();
+      }
     }
-  }, [pendingReExtract, selectedDocumentUuid, selectedDocument, pageData, doExtract]);
+  }, [pendingReExtract, selectedDocumentUuid, selectedDocument, pageData, linkedPreviewUrl, doExtract, showExtractionError]);
+
+  // Receive actions from the context menu and keyboard shortcuts: both live
+  // broadcasts and the one the background stored while this panel was still
+  // opening.
+  handlePanelActionRef.current = handlePanelAction;
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const handleMessage = (message: unknown) => {
+      if (
+        message !== null &&
+        typeof message === 'object' &&
+        (message as { type?: string }).type === 'PANEL_ACTION'
+      ) {
+        handlePanelActionRef.current(message as PanelActionBroadcast);
+      }
+    };
+    browser.runtime.onMessage.addListener(handleMessage);
+
+    getSessionValue('pendingPanelAction')
+      .then((pending) => {
+        if (pending) handlePanelActionRef.current(pending);
+      })
+      .catch(() => {});
+
+    return () => browser.runtime.onMessage.removeListener(handleMessage);
+  }, [isAuthenticated]);
 
   // Run extraction after permission grant + page data refresh completes.
-  // The grant handlers set pendingExtractAfterGrant=true and call fetchPageData().
+  // The grant handlers (and the "Add this page" context menu entry) set
+  // pendingExtractAfterGrant=true and call fetchPageData().
   // Once fetchPageData finishes (pageDataLoading goes false), we run doExtract
   // with fresh pageData (including images).
   useEffect(() => {
@@ -665,21 +1492,33 @@ function App() {
     }
   }, [pendingExtractAfterGrant, pageDataLoading, pageData, doExtract]);
 
-  // =========================================================================
-  // Custom field labels from document column definitions
-  // =========================================================================
-
-  const columnDefinitions = useMemo(() => {
-    return selectedDocument?.documentContent.column_definitions ?? null;
-  }, [selectedDocument]);
-
   // =========================================================================
   // Render
   // =========================================================================
 
   return (
     <Box sx={{ width: '100%', minHeight: '100vh', bgcolor: 'background.default' }}>
-      <Header email={user?.email ?? null} />
+      <Header email={user?.email ?? null} onOpenSettings={() => setSettingsOpen(true)} />
+
+      <SettingsDialog
+        open={settingsOpen}
+        exchangeRates={exchangeRates}
+        urlStripRules={urlStripRules}
+        extractionRecipes={extractionRecipes}
+        onSave={handleSaveSettings}
+        onClose={() => setSettingsOpen(false)}
+      />
+
+      {pageOrigin && (
+        <RecipeDialog
+          open={recipeDialogOpen}
+          origin={pageOrigin}
+          recipe={pageRecipe}
+          columnDefinitions={columnDefinitions}
+          onSave={handleSaveRecipe}
+          onClose={() => setRecipeDialogOpen(false)}
+        />
+      )}
 
       <AuthGate
         isAuthenticated={isAuthenticated}
@@ -707,12 +1546,25 @@ function App() {
               <Typography variant="body1" color="text.secondary" sx={{ mb: 2 }}>
                 {t('document.noDocuments')}
               </Typography>
-              <Button
-                variant="contained"
-                onClick={() => browser.tabs.create({ url: `${RERUM_APP_URL}/documents/new` })}
-              >
-                {t('document.createInRerum')}
-              </Button>
+              <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 1 }}>
+                <Button variant="contained" onClick={() => setCreateDocumentOpen(true)}>
+                  {t('document.createHere')}
+                </Button>
+                <Button
+                  variant="text"
+                  size="small"
+                  onClick={() => browser.tabs.create({ url: `${RERUM_APP_URL}/documents/new` })}
+                >
+                  {t('document.createInRerum')}
+                </Button>
+              </Box>
+              <NameDialog
+                open={createDocumentOpen}
+                title={t('document.newTitle')}
+                label={t('document.nameLabel')}
+                onSubmit={handleCreateDocument}
+                onClose={() => setCreateDocumentOpen(false)}
+              />
             </Box>
           )}
 
@@ -745,6 +1597,14 @@ function App() {
                 <Skeleton variant="rounded" height={66} />
               ) : null}
 
+              {pageData?.listItems && pageData.listItems.length > 0 && (
+                <ListingPicker
+                  items={pageData.listItems}
+                  selectedUrls={selectedListUrls}
+                  onChange={setSelectedListUrls}
+                />
+              )}
+
               <DocumentPicker
                 documents={documents}
                 selectedDocumentUuid={selectedDocumentUuid}
@@ -753,8 +1613,16 @@ function App() {
                 onDocumentChange={handleDocumentChange}
                 onTabChange={handleTabChange}
                 disabled={false}
+                documentCurrency={documentCurrency}
+                onDocumentCurrencyChange={handleDocumentCurrencyChange}
+                onCreateDocument={handleCreateDocument}
+                onCreateTab={handleCreateTab}
               />
 
+              {selectedTabRecords && (
+                <TabItemsList records={selectedTabRecords} currency={documentCurrency} />
+              )}
+
               <AiColumnChips columnDefinitions={columnDefinitions} />
 
               <Button
@@ -770,6 +1638,17 @@ function App() {
               >
                 {t('action.extract')}
               </Button>
+
+              {selectedListUrls.size > 0 && (
+                <Button
+                  variant="outlined"
+                  fullWidth
+                  onClick={handleAddSelected}
+                  disabled={!canAddToDocument}
+                >
+                  {t('listing.addSelected', { count: selectedListUrls.size })}
+                </Button>
+              )}
             </>
           )}
 
@@ -811,20 +1690,82 @@ function App() {
           })()}
 
           {/* Extracting state */}
-          {appState === 'extracting' && <ExtractionProgress />}
+          {appState === 'extracting' && <ExtractionProgress step={extractionStep} />}
 
           {/* Preview state */}
           {appState === 'preview' && extractedData && (
             <>
+              {previewStale && (
+                <Alert
+                  severity="warning"
+                  action={
+                    <Button color="inherit" size="small" onClick={handleAddAnother}>
+                      {t('product.loadCurrentPage')}
+                    </Button>
+                  }
+                >
+                  {t('product.previewStale')}
+                </Alert>
+              )}
+
+              {extractionSource === 'recipe' && (
+                <Alert
+                  severity="info"
+                  action={
+                    // doExtract reads the open page, not the linked one.
+                    linkedPreviewUrl ? undefined : (
+                      <Button color="inherit" size="small" onClick={() => void doExtract(true)}>
+                        {t('recipe.useAi')}
+                      </Button>
+                    )
+                  }
+                >
+                  {t('recipe.applied')}
+                </Alert>
+              )}
+
               <ProductPreview
                 data={extractedData}
                 onChange={handleDataChange}
                 columnDefinitions={columnDefinitions}
+                variants={pageData?.variants}
+                selectedVariantIndex={selectedVariantIndex}
+                hints={pageData?.hints}
+                pageQuantity={pageQuantity}
+                offers={pageData?.offers}
+                selectedOfferIndex={selectedOfferIndex}
+                onOfferChange={handleOfferChange}
+                onVariantChange={handleVariantChange}
+                currency={priceCurrency}
+                documentCurrency={documentCurrency}
+                exchangeRate={exchangeRate}
+                onPickField={previewInActiveTab ? handlePickField : undefined}
+                pickingField={pickingField}
               />
 
-              {pageData && pageData.images.length > 0 && (
+              {pickerError && (
+                <Alert severity="warning" onClose={() => setPickerError(null)}>
+                  {pickerError}
+                </Alert>
+              )}
+
+              {pickedRule && pageOrigin && (
+                <Alert
+                  severity="info"
+                  onClose={() => setPickedRule(null)}
+                  action={
+                    <Button color="inherit" size="small" onClick={handleSavePickedRule}>
+                      {t('picker.saveToRecipe')}
+                    </Button>
+                  }
+                >
+                  {t('picker.offerRecipe')}
+                </Alert>
+              )}
+
+              {previewImages.length > 0 && (
                 <ImageSelector
-                  images={pageData.images}
+                  images={previewImages}
                   selectedImage={selectedImage}
                   onSelect={setSelectedImage}
                 />
@@ -838,23 +1779,68 @@ function App() {
                 onDocumentChange={handleDocumentChange}
                 onTabChange={handleTabChange}
                 disabled={false}
+                documentCurrency={documentCurrency}
+                onDocumentCurrencyChange={handleDocumentCurrencyChange}
+                onCreateDocument={handleCreateDocument}
+                onCreateTab={handleCreateTab}
               />
 
+              {selectedTabRecords && (
+                <TabItemsList records={selectedTabRecords} currency={documentCurrency} />
+              )}
+
+              {/* Duplicate guard: offer to raise the existing row's quantity */}
+              {duplicateMatch && (
+                <Alert
+                  severity="warning"
+                  action={
+                    <Button
+                      ref={increaseQuantityButtonRef}
+                      color="inherit"
+                      size="small"
+                      onClick={handleIncreaseQuantity}
+                      disabled={!canAddToDocument}
+                    >
+                      {t('duplicate.increaseQuantity')}
+                    </Button>
+                  }
+                >
+                  {t(`duplicate.found_${duplicateMatch.matchedBy}`, {
+                    productName: duplicateMatch.record.product_name ?? t('tabItems.unnamed'),
+                    quantity: duplicateMatch.record.quantity ?? 1,
+                  })}
+                  {duplicateShortcutBlocked && (
+                    <Typography variant="body2" sx={{ mt: 0.5, fontWeight: 500 }}>
+                      {t('duplicate.shortcutBlocked')}
+                    </Typography>
+                  )}
+                </Alert>
+              )}
+
+              {previewInActiveTab && !duplicateMatch && (
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      size="small"
+                      checked={savePriceEvidence}
+                      onChange={(e) => handleSavePriceEvidenceChange(e.target.checked)}
+                    />
+                  }
+                  label={<Typography variant="body2">{t('evidence.save')}</Typography>}
+                />
+              )}
+
               <Button
-                variant="contained"
+                variant={duplicateMatch ? 'outlined' : 'contained'}
                 fullWidth
                 size="large"
                 onClick={handleAddToEstimate}
-                disabled={
-                  !selectedDocumentUuid ||
-                  !selectedTabId ||
-                  documents.find((d) => d.uuid === selectedDocumentUuid)?.isLocked === true
-                }
-                sx={{
+                disabled={!canAddToDocument}
+                sx={duplicateMatch ? undefined : {
                   background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
                 }}
               >
-                {t('action.addToEstimate')}
+                {duplicateMatch ? t('duplicate.addAnyway') : t('action.addToEstimate')}
               </Button>
               <Button
                 variant="text"
@@ -863,6 +1849,16 @@ function App() {
               >
                 {t('action.cancel')}
               </Button>
+              {pageOrigin && (
+                <Button
+                  variant="text"
+                  size="small"
+                  color="inherit"
+                  onClick={() => setRecipeDialogOpen(true)}
+                >
+                  {pageRecipe ? t('recipe.edit') : t('recipe.create')}
+                </Button>
+              )}
             </>
           )}
 
@@ -873,6 +1869,7 @@ function App() {
                 data={extractedData}
                 onChange={handleDataChange}
                 columnDefinitions={columnDefinitions}
+                currency={priceCurrency}
                 disabled
               />
               <Button
@@ -886,6 +1883,13 @@ function App() {
             </>
           )}
 
+          {/* Saving state (batch add from a listing page) */}
+          {appState === 'saving' && !extractedData && (
+            <Button variant="contained" fullWidth size="large" disabled>
+              {t('action.adding')}
+            </Button>
+          )}
+
           {/* Success state */}
           {appState === 'success' && successInfo && (
             <SuccessConfirmation
@@ -893,6 +1897,10 @@ function App() {
               tabName={successInfo.tabName}
               productName={successInfo.productName}
               documentUuid={successInfo.documentUuid}
+              productCount={successInfo.productCount}
+              skippedCount={successInfo.skippedCount}
+              updatedQuantity={successInfo.updatedQuantity}
+              evidenceSaved={successInfo.evidenceSaved}
               onAddAnother={handleAddAnother}
             />
           )}
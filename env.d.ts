@@ -29,3 +29,6 @@ interface ImportMetaEnv {
 interface ImportMeta {
   readonly env: ImportMetaEnv;
 }
+
+/** pdf.js ships no types for its worker module; lib/pdfReader.ts only passes it on. */
+declare module 'pdfjs-dist/build/pdf.worker.mjs';
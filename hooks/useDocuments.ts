@@ -24,8 +24,8 @@ export interface UseDocumentsResult {
   isLoading: boolean;
   /** Human-readable error message, or `null`. */
   error: string | null;
-  /** Manually re-trigger the fetch with current params. */
-  refetch: () => void;
+  /** Manually re-trigger the fetch with current params. Resolves when done. */
+  refetch: () => Promise<void>;
 }
 
 /**
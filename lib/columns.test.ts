@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { ColumnDefinitionApi } from '../shared-types/estimate';
+import { matchSpecsToColumns, normalizeLabel } from './columns';
+
+function column(columnKey: string, displayName: string, isSystemColumn = false): ColumnDefinitionApi {
+  return {
+    column_key: columnKey,
+    display_name: displayName,
+    is_system_column: isSystemColumn,
+  } as ColumnDefinitionApi;
+}
+
+describe('normalizeLabel', () => {
+  it('drops case, diacritics and punctuation', () => {
+    expect(normalizeLabel('Kolor / Wykończenie')).toBe('kolor wykonczenie');
+    expect(normalizeLabel('Szerokość (cm):')).toBe('szerokosc cm');
+  });
+});
+
+describe('matchSpecsToColumns', () => {
+  const columns = [column('width', 'Width'), column('colour', 'Kolor'), column('productName', 'Name', true)];
+
+  it('matches spec labels to custom column names after normalisation', () => {
+    const specs = [
+      { key: 'WIDTH', value: '60 cm' },
+      { key: 'kolor:', value: 'Biały' },
+      { key: 'Name', value: 'Sofa' },
+    ];
+    expect(matchSpecsToColumns(specs, columns)).toEqual({ width: '60 cm', colour: 'Biały' });
+  });
+
+  it('accepts a label that only adds a unit', () => {
+    for (const key of ['Width (cm)', 'Width [mm]', 'Width, cm', 'Width in cm']) {
+      expect(matchSpecsToColumns([{ key, value: '60' }], columns)).toEqual({ width: '60' });
+    }
+  });
+
+  it('does not take a longer label that names something else', () => {
+    expect(matchSpecsToColumns([{ key: 'Width of packaging', value: '80 cm' }], columns)).toEqual({});
+    expect(matchSpecsToColumns([{ key: 'Kolor nóżek', value: 'Czarny' }], columns)).toEqual({});
+  });
+
+  it('prefers an exact label over one with a unit', () => {
+    const specs = [
+      { key: 'Width (cm)', value: '60' },
+      { key: 'Width', value: '60 cm' },
+    ];
+    expect(matchSpecsToColumns(specs, columns)).toEqual({ width: '60 cm' });
+  });
+});
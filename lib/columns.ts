@@ -0,0 +1,147 @@
+import type { ColumnDefinitionApi, ProductHints } from '../shared-types/estimate';
+import type { ProductSpec } from './sanitize';
+
+// ---------------------------------------------------------------------------
+// Column lookup by name
+// ---------------------------------------------------------------------------
+
+/** Column names (EN / PL) that hold a product's SKU. */
+export const SKU_COLUMN_LABELS = ['sku', 'symbol', 'product code', 'item code', 'kod produktu'];
+
+/** Column names that hold a product's GTIN / EAN barcode. */
+export const GTIN_COLUMN_LABELS = ['gtin', 'ean', 'ean13', 'barcode', 'upc', 'kod ean', 'kod kreskowy'];
+
+/** Column names that hold a manufacturer part number. */
+export const MPN_COLUMN_LABELS = [
+  'mpn',
+  'part number',
+  'part no',
+  'manufacturer part number',
+  'mfr part number',
+  'numer katalogowy',
+  'kod producenta',
+  'numer części',
+];
+
+/** Column names that hold the stock status. */
+export const AVAILABILITY_COLUMN_LABELS = ['availability', 'stock', 'stock status', 'dostępność', 'stan magazynowy'];
+
+/** Column names that hold the seller a product is quoted from. */
+export const SELLER_COLUMN_LABELS = ['seller', 'supplier', 'vendor', 'shop', 'store', 'sprzedawca', 'dostawca', 'sklep'];
+
+/** Column names that hold the date a quoted price expires. */
+export const PRICE_VALID_UNTIL_COLUMN_LABELS = ['price valid until', 'valid until', 'cena ważna do', 'ważna do'];
+
+/**
+ * Normalise a column label for loose matching: lower-case, strip diacritics
+ * and collapse everything that is not a letter or digit into single spaces.
+ *
+ * e.g. "Kolor / Wykończenie" -> "kolor wykonczenie"
+ */
+export function normalizeLabel(label: string): string {
+  return label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[łŁ]/g, 'l')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Find the first custom (non-system) column whose display name or key
+ * matches one of `labels` after normalisation.
+ *
+ * Used to route page data that has no system column (SKU, colour, …) into
+ * user-defined columns of the selected document.
+ */
+export function findCustomColumn(
+  columnDefinitions: ColumnDefinitionApi[] | null | undefined,
+  labels: string[],
+): ColumnDefinitionApi | null {
+  if (!columnDefinitions || labels.length === 0) return null;
+  const wanted = new Set(labels.map(normalizeLabel));
+
+  return (
+    columnDefinitions.find(
+      (col) =>
+        !col.is_system_column &&
+        (wanted.has(normalizeLabel(col.display_name)) || wanted.has(normalizeLabel(col.column_key))),
+    ) ?? null
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Product identifier matching
+// ---------------------------------------------------------------------------
+
+/**
+ * Fill custom columns named like a product identifier (GTIN, SKU, MPN) or an
+ * offer detail (availability, price validity) from the page's hints.
+ *
+ * `formatAvailability` turns the schema.org name ("InStock") into the text
+ * to store. Returns the values keyed by `column_key`.
+ */
+export function matchHintsToColumns(
+  hints: ProductHints | null | undefined,
+  columnDefinitions: ColumnDefinitionApi[] | null | undefined,
+  formatAvailability: (availability: string) => string = (availability) => availability,
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  if (!hints) return values;
+
+  const fields: Array<[string | undefined, string[]]> = [
+    [hints.gtin, GTIN_COLUMN_LABELS],
+    [hints.sku, SKU_COLUMN_LABELS],
+    [hints.mpn, MPN_COLUMN_LABELS],
+    [hints.availability && formatAvailability(hints.availability), AVAILABILITY_COLUMN_LABELS],
+    [hints.priceValidUntil, PRICE_VALID_UNTIL_COLUMN_LABELS],
+  ];
+  for (const [value, labels] of fields) {
+    const column = value ? findCustomColumn(columnDefinitions, labels) : null;
+    if (column && value) values[column.column_key] = value;
+  }
+  return values;
+}
+
+// ---------------------------------------------------------------------------
+// Spec table matching
+// ---------------------------------------------------------------------------
+
+/**
+ * A unit written after a spec label: "(cm)", "[mm]", ", kg", " in cm",
+ * " w cm".
+ */
+const SPEC_UNIT_SUFFIX = /\s*(\([^()]*\)|\[[^\]]*\]|,\s*[^\s,]{1,5}|\s+(?:in|w)\s+[^\s]{1,5})\s*:?$/i;
+
+/**
+ * Fill custom columns from a product's specification table by matching each
+ * column's display name (or key) against the spec labels.
+ *
+ * An exact match after normalisation wins; otherwise a label that only adds
+ * a unit to the column name is accepted, so "Width" also takes "Width (cm)"
+ * but not "Width of packaging". Returns the values keyed by `column_key`.
+ */
+export function matchSpecsToColumns(
+  specs: ProductSpec[] | null | undefined,
+  columnDefinitions: ColumnDefinitionApi[] | null | undefined,
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  if (!specs || specs.length === 0 || !columnDefinitions) return values;
+
+  const labelled = specs.map((spec) => ({
+    label: normalizeLabel(spec.key),
+    withoutUnit: normalizeLabel(spec.key.replace(SPEC_UNIT_SUFFIX, '')),
+    value: spec.value,
+  }));
+
+  for (const col of columnDefinitions) {
+    if (col.is_system_column) continue;
+    const names = [normalizeLabel(col.display_name), normalizeLabel(col.column_key)].filter(Boolean);
+    const match =
+      labelled.find((spec) => names.includes(spec.label)) ??
+      labelled.find((spec) => names.includes(spec.withoutUnit));
+    if (match) values[col.column_key] = match.value;
+  }
+  return values;
+}
@@ -0,0 +1,88 @@
+import Decimal from 'decimal.js';
+import type { ExchangeRate } from './storage';
+import { isCurrencyCode } from './price';
+
+// ---------------------------------------------------------------------------
+// Exchange rate lookup
+// ---------------------------------------------------------------------------
+
+/**
+ * Find the rate that converts one unit of `from` into `to`.
+ *
+ * A direct entry wins; otherwise the inverse of a `to -> from` entry is used,
+ * so "EUR -> PLN 4.30" also covers PLN prices in a EUR document.
+ *
+ * Returns `null` when the table has no usable entry for the pair.
+ */
+export function findExchangeRate(rates: ExchangeRate[], from: string, to: string): string | null {
+  if (from === to) return '1';
+
+  const direct = rates.find((r) => r.from === from && r.to === to && isValidRate(r.rate));
+  if (direct) return new Decimal(direct.rate).toString();
+
+  const inverse = rates.find((r) => r.from === to && r.to === from && isValidRate(r.rate));
+  if (inverse) return new Decimal(1).dividedBy(inverse.rate).toSignificantDigits(8).toString();
+
+  return null;
+}
+
+/**
+ * Convert a normalised decimal price with `rate`, rounded to two places.
+ * Returns `null` when the price is not a number.
+ */
+export function convertPrice(price: string, rate: string): string | null {
+  try {
+    return new Decimal(price).times(rate).toFixed(2);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Price and custom fields of a new row in the document's currency: `price`
+ * converted with `rate`, the original price, currency and rate kept in the
+ * custom fields. Without a rate, or for a price that is not a number, both
+ * are returned unchanged.
+ */
+export function convertRowPrice(
+  price: string | null,
+  currency: string | null,
+  rate: string | null,
+  customFields: Record<string, string | null> | null | undefined,
+): { price: string | null; customFields: Record<string, string | null> | null } {
+  const converted = price && rate ? convertPrice(price, rate) : null;
+  if (!converted) return { price, customFields: customFields ?? null };
+  return {
+    price: converted,
+    customFields: {
+      ...(customFields ?? {}),
+      original_price: price,
+      original_currency: currency,
+      exchange_rate: rate,
+    },
+  };
+}
+
+/** Check that a rate string is a positive, finite decimal. */
+export function isValidRate(rate: string): boolean {
+  try {
+    const value = new Decimal(rate.trim().replace(',', '.'));
+    return value.isFinite() && value.greaterThan(0);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Drop incomplete rows from an edited rate table and normalise the rest
+ * (upper-case codes, dot decimal separator).
+ */
+export function cleanExchangeRates(rates: ExchangeRate[]): ExchangeRate[] {
+  return rates
+    .map((r) => ({
+      from: r.from.trim().toUpperCase(),
+      to: r.to.trim().toUpperCase(),
+      rate: r.rate.trim().replace(',', '.'),
+    }))
+    .filter((r) => isCurrencyCode(r.from) && isCurrencyCode(r.to) && r.from !== r.to && isValidRate(r.rate));
+}
@@ -0,0 +1,81 @@
+import type { ColumnDefinitionApi, EstimateRecordApi } from '../shared-types/estimate';
+import { findCustomColumn, GTIN_COLUMN_LABELS, SKU_COLUMN_LABELS } from './columns';
+import { DEFAULT_URL_STRIP_RULES, normalizeProductUrl } from './url';
+
+/** A row of the selected tab that matches the product about to be added. */
+export interface DuplicateMatch {
+  /** Position of the row in the tab's `estimate_record_list`. */
+  index: number;
+  record: EstimateRecordApi;
+  /** Which identifier matched. */
+  matchedBy: 'gtin' | 'sku' | 'url';
+}
+
+/**
+ * Normalise a product URL for comparison: tracking parameters removed (per
+ * `urlStripRules`), lower-case host without "www.", no scheme, sorted query
+ * and no trailing slash.
+ *
+ * Returns `null` for empty or unparseable URLs.
+ */
+export function normalizeUrlForComparison(
+  url: string | null | undefined,
+  urlStripRules: readonly string[] = DEFAULT_URL_STRIP_RULES,
+): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(normalizeProductUrl(url, urlStripRules));
+    const params = [...parsed.searchParams.entries()].sort(([a], [b]) => a.localeCompare(b));
+    const query = new URLSearchParams(params).toString();
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${host}${path}${query ? `?${query}` : ''}`;
+  } catch {
+    return null;
+  }
+}
+
+/** Compare identifiers ignoring case, spaces and dashes ("5901-234 123457"). */
+function normalizeIdentifier(value: string | null | undefined): string | null {
+  const normalized = value?.replace(/[\s-]/g, '').toLowerCase();
+  return normalized ? normalized : null;
+}
+
+/**
+ * Find a row in `records` that describes the same product as `candidate`.
+ *
+ * GTIN and SKU (read from the document's matching custom columns) are
+ * checked first since they identify a product regardless of the shop; the
+ * normalised product URL is the fallback. Returns the first match, or `null`.
+ */
+export function findDuplicateRow(
+  records: EstimateRecordApi[] | null | undefined,
+  candidate: EstimateRecordApi | null | undefined,
+  columnDefinitions: ColumnDefinitionApi[] | null | undefined,
+  urlStripRules: readonly string[] = DEFAULT_URL_STRIP_RULES,
+): DuplicateMatch | null {
+  if (!records?.length || !candidate) return null;
+
+  const identifierColumns: Array<[DuplicateMatch['matchedBy'], string | undefined]> = [
+    ['gtin', findCustomColumn(columnDefinitions, GTIN_COLUMN_LABELS)?.column_key],
+    ['sku', findCustomColumn(columnDefinitions, SKU_COLUMN_LABELS)?.column_key],
+  ];
+
+  for (const [matchedBy, columnKey] of identifierColumns) {
+    if (!columnKey) continue;
+    const wanted = normalizeIdentifier(candidate.custom_fields?.[columnKey]);
+    if (!wanted) continue;
+    const index = records.findIndex((r) => normalizeIdentifier(r.custom_fields?.[columnKey]) === wanted);
+    if (index >= 0) return { index, record: records[index]!, matchedBy };
+  }
+
+  const wantedUrl = normalizeUrlForComparison(candidate.product_url, urlStripRules);
+  if (wantedUrl) {
+    const index = records.findIndex(
+      (r) => normalizeUrlForComparison(r.product_url, urlStripRules) === wantedUrl,
+    );
+    if (index >= 0) return { index, record: records[index]!, matchedBy: 'url' };
+  }
+
+  return null;
+}
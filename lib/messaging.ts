@@ -7,6 +7,7 @@ import type {
   UsageDto,
   UserDto,
 } from '../shared-types/estimate';
+import type { PageSelections, ProductSpec } from './sanitize';
 
 // ---------------------------------------------------------------------------
 // Messages: Side Panel / Content Script --> Background Service Worker
@@ -16,9 +17,35 @@ export type ExtensionMessage =
   | { type: 'CHECK_AUTH' }
   | { type: 'FETCH_DOCUMENTS'; page?: number; size?: number; search?: string; sort?: 'name' | 'updated' }
   | { type: 'FETCH_DOCUMENT'; documentUuid: string }
-  | { type: 'EXTRACT_PRODUCT'; productUrl: string; documentUuid?: string; tabId?: number }
+  | { type: 'CREATE_DOCUMENT'; documentName: string }
+  | { type: 'CREATE_TAB'; documentUuid: string; tabName: string }
+  | { type: 'EXTRACT_PRODUCT'; productUrl: string; documentUuid?: string; tabId?: number; skipRecipe?: boolean }
   | { type: 'ADD_ROW_TO_DOCUMENT'; documentUuid: string; tabId: string; row: EstimateRecordApi }
+  | { type: 'ADD_ROWS_TO_DOCUMENT'; documentUuid: string; tabId: string; rows: EstimateRecordApi[] }
+  | {
+      type: 'INCREASE_ROW_QUANTITY';
+      documentUuid: string;
+      tabId: string;
+      /** The product being added; its matching row is looked up on fresh data. */
+      product: EstimateRecordApi;
+      quantity: number;
+    }
   | { type: 'EXTRACT_PAGE_DATA'; tabId: number }
+  /** Extract the product behind a link again; the result arrives as panel actions. */
+  | { type: 'EXTRACT_LINKED_PRODUCT'; url: string }
+  | { type: 'PICK_ELEMENT'; tabId: number; hint: string }
+  | { type: 'CANCEL_PICK_ELEMENT'; tabId: number }
+  | {
+      type: 'UPLOAD_PRICE_EVIDENCE';
+      documentUuid: string;
+      tabId: number;
+      /** Page the product was extracted from; the tab must still show it. */
+      pageUrl: string;
+      productUrl: string | null;
+      price: string | null;
+      currency: string | null;
+    }
+  | { type: 'DELETE_PRICE_EVIDENCE'; documentUuid: string; evidenceUuid: string }
   | { type: 'FETCH_USAGE' }
   | { type: 'GET_ACTIVE_TAB' }
   | { type: 'LOGOUT' };
@@ -27,19 +54,118 @@ export type ExtensionMessage =
 // Responses: Background Service Worker --> Side Panel
 // ---------------------------------------------------------------------------
 
+/** How an EXTRACT_RESULT was produced: the AI endpoint or a saved site recipe. */
+export type ExtractionSource = 'ai' | 'recipe';
+
+/** An element the user clicked with the page element picker. */
+export interface PickedElement {
+  /** Text of the element (an image's URL for `<img>`). */
+  text: string;
+  /** CSS selector that finds the element again. */
+  selector: string;
+  /** Attribute the text was read from, when not the element's text. */
+  attribute?: string;
+}
+
 export type ExtensionResponse =
   | { type: 'AUTH_RESULT'; isAuthenticated: boolean; user?: UserDto }
   | { type: 'DOCUMENTS_RESULT'; documents: EstimateDocumentSummary[]; totalElements: number }
   | { type: 'DOCUMENT_RESULT'; document: EstimateDocumentDto }
-  | { type: 'EXTRACT_RESULT'; data: ExtractedProductData }
+  | { type: 'DOCUMENT_CREATED'; document: EstimateDocumentDto }
+  | { type: 'TAB_CREATED'; document: EstimateDocumentDto; tabId: string }
+  | {
+      type: 'EXTRACT_RESULT';
+      data: ExtractedProductData;
+      source: ExtractionSource;
+      specs: ProductSpec[];
+      /** Quantity and options the user had already chosen on the page. */
+      selections: PageSelections;
+    }
   | { type: 'ADD_ROW_RESULT'; success: true }
   | { type: 'ADD_ROW_RESULT'; success: false; error?: string; status: number; errorCode?: string }
+  | { type: 'UPDATE_ROW_RESULT'; success: true; quantity: number }
+  | { type: 'UPDATE_ROW_RESULT'; success: false; error?: string; status: number; errorCode?: string }
+  | { type: 'ADD_ROWS_RESULT'; added: number; failed: number; error?: string; status?: number; errorCode?: string }
   | { type: 'PAGE_DATA_RESULT'; pageData: PageData }
+  | { type: 'LINK_EXTRACTION_STARTED' }
+  | { type: 'PICK_ELEMENT_RESULT'; picked: PickedElement | null }
+  | { type: 'PICK_CANCELLED' }
+  | { type: 'PRICE_EVIDENCE_RESULT'; evidenceUuid: string; capturedAt: string }
+  | { type: 'PRICE_EVIDENCE_DELETED' }
   | { type: 'USAGE_RESULT'; usage: UsageDto }
   | { type: 'ACTIVE_TAB_RESULT'; tabId: number | null; url: string | null }
   | { type: 'LOGOUT_RESULT' }
   | { type: 'ERROR'; status: number; error: string; errorCode?: string };
 
+// ---------------------------------------------------------------------------
+// Broadcasts: Background Service Worker --> Side Panel
+// ---------------------------------------------------------------------------
+
+/**
+ * Something the user started outside the side panel (the page's context
+ * menu or a keyboard shortcut) that the panel should carry out or display.
+ */
+export type PanelAction =
+  | { kind: 'extract-page' }
+  | { kind: 'add-to-estimate' }
+  | { kind: 'link-extracting'; url: string; tabId: number }
+  | {
+      kind: 'link-extracted';
+      url: string;
+      pageData: PageData;
+      data: ExtractedProductData;
+      source: ExtractionSource;
+      specs: ProductSpec[];
+      /** What the linked page preselects: its default quantity and options. */
+      selections: PageSelections;
+    }
+  | { kind: 'link-failed'; url: string; status: number; error: string; errorCode?: string }
+  | { kind: 'use-image'; imageUrl: string };
+
+/**
+ * Broadcast carrying a {@link PanelAction}. The latest one is also kept in
+ * session storage so a side panel that opens after it was sent can pick it up.
+ */
+export interface PanelActionBroadcast {
+  type: 'PANEL_ACTION';
+  /** Unique per action; lets the panel ignore an action it already handled. */
+  id: string;
+  createdAt: number;
+  action: PanelAction;
+}
+
+/**
+ * Broadcast when a tab moves to another page without a full load (a
+ * single-page shop calling `history.pushState`, or a `#fragment` change),
+ * once the new page has had a moment to render.
+ */
+export interface PageNavigatedBroadcast {
+  type: 'PAGE_NAVIGATED';
+  tabId: number;
+  url: string;
+}
+
+/**
+ * Stage of a running product extraction: waiting for the page to finish
+ * rendering, then reading and analysing it.
+ */
+export type ExtractionStep = 'waiting-for-page' | 'analyzing';
+
+/** Broadcast as an extraction moves from one {@link ExtractionStep} to the next. */
+export interface ExtractionProgressBroadcast {
+  type: 'EXTRACTION_PROGRESS';
+  tabId: number;
+  step: ExtractionStep;
+}
+
+/** Broadcast message types — not part of the request/response protocol. */
+export const BROADCAST_TYPES: ReadonlySet<string> = new Set([
+  'AUTH_STATE_CHANGED',
+  'PANEL_ACTION',
+  'PAGE_NAVIGATED',
+  'EXTRACTION_PROGRESS',
+]);
+
 // ---------------------------------------------------------------------------
 // Type-safe message sender
 // ---------------------------------------------------------------------------
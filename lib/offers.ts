@@ -0,0 +1,34 @@
+import type { ColumnDefinitionApi, ExtractedProductData, ProductOffer } from '../shared-types/estimate';
+import { findCustomColumn, SELLER_COLUMN_LABELS } from './columns';
+
+/**
+ * Apply the seller offer the user chose to quote to the preview data.
+ *
+ * Overwrites the price and URL with the offer's and records the seller in a
+ * custom column named like "Seller" or "Supplier". When the document has no
+ * such column, the seller goes into the comment as `sellerNote(seller)`,
+ * replacing the line written for `previousOffer`.
+ */
+export function applyOffer<T extends ExtractedProductData & { comment?: string }>(
+  data: T,
+  offer: ProductOffer,
+  previousOffer: ProductOffer | null,
+  columnDefinitions: ColumnDefinitionApi[] | null | undefined,
+  sellerNote: (seller: string) => string,
+): T {
+  const updated: T = {
+    ...data,
+    pricePerUnit: offer.price,
+    productUrl: offer.url ?? data.productUrl,
+  };
+
+  const sellerColumn = findCustomColumn(columnDefinitions, SELLER_COLUMN_LABELS);
+  if (sellerColumn) {
+    return { ...updated, customFields: { ...(data.customFields ?? {}), [sellerColumn.column_key]: offer.seller } };
+  }
+
+  const previousNote = previousOffer ? sellerNote(previousOffer.seller) : null;
+  const lines = (data.comment ?? '').split('\n').filter((line) => line !== previousNote);
+  while (lines.length > 0 && !lines[lines.length - 1]?.trim()) lines.pop();
+  return { ...updated, comment: [...lines, sellerNote(offer.seller)].join('\n') };
+}
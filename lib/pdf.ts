@@ -0,0 +1,137 @@
+// Text extraction from PDF datasheets.
+//
+// When the active tab shows a PDF, the content script has no DOM to read, so
+// the background has the file downloaded and its text layer read by pdf.js.
+// pdf.js lives in a separate reader page (entrypoints/pdf-reader, using
+// lib/pdfReader.ts) that is only opened for a PDF: an offscreen document in
+// Chrome, a hidden frame of the background page in Firefox. The background
+// talks to it with `READ_PDF` runtime messages.
+
+/** Text and metadata read from a PDF. */
+export interface PdfText {
+  /** Text of the first pages, one `[Page n]` section per page. */
+  text: string;
+  /** Title from the document metadata, if set. */
+  title: string | null;
+  /** Author from the document metadata, if set. */
+  author: string | null;
+  pageCount: number;
+}
+
+/** Whether `url` points at a PDF file by its path (`.../datasheet.pdf`). */
+export function isPdfUrl(url: string | null | undefined): boolean {
+  if (!url) return false;
+  try {
+    return /\.pdf$/i.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+}
+
+/** File name of a PDF URL without the extension, used as a last-resort title. */
+export function pdfFileName(url: string): string {
+  try {
+    const name = decodeURIComponent(new URL(url).pathname.split('/').pop() ?? '');
+    return name.replace(/\.pdf$/i, '');
+  } catch {
+    return '';
+  }
+}
+
+/** Message asking the PDF reader page to read the PDF at `url`. */
+export interface ReadPdfRequest {
+  type: 'READ_PDF';
+  url: string;
+}
+
+/** Reply of the PDF reader page to a {@link ReadPdfRequest}. */
+export type ReadPdfResponse = { ok: true; pdf: PdfText } | { ok: false; error: string };
+
+const PDF_READER_PATH = '/pdf-reader.html';
+
+/** Chrome's offscreen API; not in WXT's browser types. */
+interface OffscreenApi {
+  createDocument: (options: { url: string; reasons: string[]; justification: string }) => Promise<void>;
+  closeDocument: () => Promise<void>;
+}
+
+// The reader page is opened for the first PDF and closed once no read is
+// pending, so pdf.js does not stay in memory.
+let readerReady: Promise<void> | null = null;
+let readerClosed: Promise<void> = Promise.resolve();
+let closeReader: (() => Promise<void>) | null = null;
+let pendingReads = 0;
+
+/** Open the PDF reader page if it is not open yet. */
+function openReader(): Promise<void> {
+  readerReady ??= (async () => {
+    // Only one offscreen document may exist; let the last one close first.
+    await readerClosed;
+    const url = browser.runtime.getURL(PDF_READER_PATH);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- offscreen API not in WXT's browser types
+    const offscreen = (browser as any).offscreen as OffscreenApi | undefined;
+    if (offscreen) {
+      await offscreen.createDocument({
+        url,
+        reasons: ['WORKERS'],
+        justification: 'Read the text of PDF datasheets with pdf.js',
+      });
+      closeReader = () => offscreen.closeDocument();
+      return;
+    }
+
+    // Firefox: the background is a page and can host the reader in a frame.
+    const frame = document.createElement('iframe');
+    frame.src = url;
+    await new Promise<void>((resolve, reject) => {
+      frame.addEventListener('load', () => resolve(), { once: true });
+      frame.addEventListener('error', () => reject(new Error('PDF reader did not load')), { once: true });
+      document.body.appendChild(frame);
+    });
+    closeReader = async () => frame.remove();
+  })().catch((err: unknown) => {
+    readerReady = null;
+    throw err;
+  });
+  return readerReady;
+}
+
+async function readPdfInReader(url: string): Promise<PdfText> {
+  pendingReads++;
+  try {
+    await openReader();
+    const request: ReadPdfRequest = { type: 'READ_PDF', url };
+    const response = (await browser.runtime.sendMessage(request)) as ReadPdfResponse | undefined;
+    if (!response) throw new Error('PDF reader did not respond');
+    if (!response.ok) throw new Error(response.error);
+    return response.pdf;
+  } finally {
+    pendingReads--;
+    if (pendingReads === 0 && closeReader) {
+      const close = closeReader;
+      closeReader = null;
+      readerReady = null;
+      readerClosed = close().catch(() => {});
+    }
+  }
+}
+
+// A PDF is often extracted again (another document, AI instead of a recipe);
+// keep the last result so the file is downloaded and parsed once.
+let lastPdf: { url: string; result: Promise<PdfText> } | null = null;
+
+/**
+ * Have the PDF at `url` downloaded and its text and metadata read.
+ *
+ * Throws when the file cannot be downloaded or is not a readable PDF.
+ */
+export function extractPdfText(url: string): Promise<PdfText> {
+  if (lastPdf?.url === url) return lastPdf.result;
+
+  const result = readPdfInReader(url);
+  lastPdf = { url, result };
+  result.catch(() => {
+    if (lastPdf?.result === result) lastPdf = null;
+  });
+  return result;
+}
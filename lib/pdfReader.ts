@@ -0,0 +1,69 @@
+// PDF text extraction with pdf.js, run in the PDF reader page
+// (entrypoints/pdf-reader) rather than the background: pdf.js is large, and
+// the service worker would parse it on every wake-up although few tabs are
+// PDFs. The worker is bundled and runs on the reader page's thread (pdf.js
+// picks it up from `globalThis.pdfjsWorker`).
+
+import { getDocument } from 'pdfjs-dist';
+import * as pdfjsWorker from 'pdfjs-dist/build/pdf.worker.mjs';
+import type { PdfText } from './pdf';
+
+(globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = pdfjsWorker;
+
+/** Datasheets put the product up front; later pages are rarely worth reading. */
+const MAX_PDF_PAGES = 30;
+/** Same limit as the text captured from a web page. */
+const MAX_PDF_TEXT_LENGTH = 100_000;
+/** Larger files are catalogues rather than datasheets. */
+const MAX_PDF_BYTES = 30 * 1024 * 1024;
+
+/**
+ * Download the PDF at `url` and read its text and metadata.
+ *
+ * Throws when the file cannot be downloaded or is not a readable PDF.
+ */
+export async function readPdf(url: string): Promise<PdfText> {
+  const response = await fetch(url, { credentials: 'include' });
+  if (!response.ok) {
+    throw new Error(`PDF download failed with status ${response.status}`);
+  }
+  const data = new Uint8Array(await response.arrayBuffer());
+  if (data.byteLength > MAX_PDF_BYTES) {
+    throw new Error('PDF is too large');
+  }
+
+  const pdf = await getDocument({ data, isEvalSupported: false, disableFontFace: true }).promise;
+  try {
+    const { info } = await pdf.getMetadata();
+    const metadata = (info ?? {}) as { Title?: unknown; Author?: unknown };
+
+    const pages: string[] = [];
+    let length = 0;
+    const pageCount = Math.min(pdf.numPages, MAX_PDF_PAGES);
+    for (let number = 1; number <= pageCount && length < MAX_PDF_TEXT_LENGTH; number++) {
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      // pdf.js splits text into runs; `hasEOL` marks the end of a line.
+      let pageText = '';
+      for (const item of content.items) {
+        if (!('str' in item)) continue;
+        pageText += item.str + (item.hasEOL ? '\n' : ' ');
+      }
+      pageText = pageText.replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+      page.cleanup();
+      if (!pageText) continue;
+      const section = `[Page ${number}]\n${pageText}`;
+      pages.push(section);
+      length += section.length + 2;
+    }
+
+    return {
+      text: pages.join('\n\n').substring(0, MAX_PDF_TEXT_LENGTH),
+      title: typeof metadata.Title === 'string' && metadata.Title.trim() ? metadata.Title.trim() : null,
+      author: typeof metadata.Author === 'string' && metadata.Author.trim() ? metadata.Author.trim() : null,
+      pageCount: pdf.numPages,
+    };
+  } finally {
+    void pdf.destroy();
+  }
+}
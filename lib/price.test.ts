@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { detectCurrency, parsePrice, parseStructuredPrice } from './price';
+
+describe('parsePrice', () => {
+  it('reads grouping and decimal separators', () => {
+    expect(parsePrice('1 299,00 zł', 'pl-PL')).toBe('1299.00');
+    expect(parsePrice('$1,299.5', 'en-US')).toBe('1299.50');
+    expect(parsePrice('1.299.000', 'de-DE')).toBe('1299000.00');
+  });
+
+  it('reads a lone separator before three digits with the locale', () => {
+    expect(parsePrice('1.299 zł', 'pl-PL')).toBe('1299.00');
+    expect(parsePrice('1,299', 'en-US')).toBe('1299.00');
+    expect(parsePrice('1.299')).toBe('1.299');
+  });
+
+  it('keeps prices with three decimals', () => {
+    expect(parsePrice('0,125 zł', 'pl-PL')).toBe('0.125');
+    expect(parsePrice('0.125 €', 'de-DE')).toBe('125.00');
+    expect(parsePrice('0.125', 'en-US')).toBe('0.125');
+  });
+
+  it('leaves a normalised price unchanged when parsed again without a locale', () => {
+    for (const [raw, locale] of [
+      ['0,125 zł', 'pl-PL'],
+      ['1 299,00 zł', 'pl-PL'],
+      ['12.499', 'en-US'],
+      ['$1,299.5', 'en-US'],
+    ] as const) {
+      const once = parsePrice(raw, locale);
+      expect(parsePrice(once)).toBe(once);
+    }
+  });
+
+  it('returns null without a number', () => {
+    expect(parsePrice('Call for price')).toBeNull();
+    expect(parsePrice(null)).toBeNull();
+  });
+});
+
+describe('parseStructuredPrice', () => {
+  it('reads bare schema.org numbers with a decimal point whatever the locale', () => {
+    expect(parseStructuredPrice('12.499', 'pl-PL')).toBe('12.499');
+    expect(parseStructuredPrice('1299', 'de-DE')).toBe('1299.00');
+    expect(parseStructuredPrice('49.9', 'pl-PL')).toBe('49.90');
+  });
+
+  it('parses text shown inside the markup with the locale', () => {
+    expect(parseStructuredPrice('1.299 zł', 'pl-PL')).toBe('1299.00');
+    expect(parseStructuredPrice('1 299,00 zł', 'pl-PL')).toBe('1299.00');
+  });
+});
+
+describe('detectCurrency', () => {
+  it('prefers ISO codes over symbols', () => {
+    expect(detectCurrency('EUR 49.90 $')).toBe('EUR');
+    expect(detectCurrency('1 299,00 zł')).toBe('PLN');
+    expect(detectCurrency('49.90')).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import Decimal from 'decimal.js';
+
+// ---------------------------------------------------------------------------
+// Currencies
+// ---------------------------------------------------------------------------
+
+/** Currencies offered in the document currency picker. */
+export const COMMON_CURRENCIES = [
+  'PLN',
+  'EUR',
+  'USD',
+  'GBP',
+  'CHF',
+  'CZK',
+  'SEK',
+  'NOK',
+  'DKK',
+  'HUF',
+] as const;
+
+/**
+ * Currency symbols and local abbreviations, checked in order. `$` comes last
+ * because several currencies use it as part of a longer symbol (US$, C$, A$).
+ */
+const CURRENCY_SYMBOLS: Array<[RegExp, string]> = [
+  [/zł/i, 'PLN'],
+  [/€/, 'EUR'],
+  [/£/, 'GBP'],
+  [/kč/i, 'CZK'],
+  [/\bft\b/i, 'HUF'],
+  [/\bfr\.?\b/i, 'CHF'],
+  [/\bkr\b/i, 'SEK'],
+  [/C\$/, 'CAD'],
+  [/A\$/, 'AUD'],
+  [/\$/, 'USD'],
+];
+
+/** Check for an ISO 4217-shaped currency code (three upper-case letters). */
+export function isCurrencyCode(code: string): boolean {
+  return /^[A-Z]{3}$/.test(code);
+}
+
+/**
+ * Detect the currency of a raw price string such as "1 299,00 zł", "$1,299"
+ * or "EUR 49.90". ISO codes win over symbols.
+ *
+ * Returns `null` when no currency can be recognised.
+ */
+export function detectCurrency(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+
+  const code = raw.match(/(?:^|[^A-Za-z])([A-Z]{3})(?![A-Za-z])/);
+  if (code?.[1] && (COMMON_CURRENCIES as readonly string[]).concat(['CAD', 'AUD', 'JPY']).includes(code[1])) {
+    return code[1];
+  }
+
+  for (const [pattern, currency] of CURRENCY_SYMBOLS) {
+    if (pattern.test(raw)) return currency;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Price parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Decimal separator used by a locale ("." for en-US, "," for pl-PL), or
+ * `null` when the locale is unknown or invalid.
+ */
+function getDecimalSeparator(locale: string | undefined): string | null {
+  if (!locale) return null;
+  try {
+    const parts = new Intl.NumberFormat(locale).formatToParts(1.5);
+    return parts.find((p) => p.type === 'decimal')?.value ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a human-formatted price into a normalised decimal string
+ * ("1 299,00 zł" -> "1299.00", "$1,299.5" -> "1299.50").
+ *
+ * A lone separator followed by exactly three digits is ambiguous ("1.299"
+ * is 1299 in pl-PL but 1.299 in en-US); `locale` decides it. Without a
+ * locale a dot is read as the decimal point and a comma as grouping.
+ *
+ * Returns `null` when the string contains no number.
+ */
+export function parsePrice(raw: string | null | undefined, locale?: string): string | null {
+  if (!raw) return null;
+
+  const match = raw.match(/-?\d[\d\s.,'’\u00a0\u202f]*/);
+  if (!match) return null;
+
+  let number = match[0].replace(/[\s'’\u00a0\u202f]/g, '').replace(/[.,]+$/, '');
+  const lastDot = number.lastIndexOf('.');
+  const lastComma = number.lastIndexOf(',');
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    // Both separators present: the later one is the decimal point.
+    const decimal = lastDot > lastComma ? '.' : ',';
+    const grouping = decimal === '.' ? ',' : '.';
+    number = number.split(grouping).join('').replace(decimal, '.');
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? '.' : ',';
+    const occurrences = number.split(separator).length - 1;
+    const digitsAfter = number.length - number.lastIndexOf(separator) - 1;
+
+    let isDecimal: boolean;
+    if (occurrences > 1) {
+      isDecimal = false;
+    } else if (digitsAfter !== 3) {
+      isDecimal = true;
+    } else {
+      const localeDecimal = getDecimalSeparator(locale);
+      isDecimal = localeDecimal ? localeDecimal === separator : separator === '.';
+    }
+
+    number = isDecimal
+      ? number.replace(separator, '.')
+      : number.split(separator).join('');
+  }
+
+  try {
+    const value = new Decimal(number);
+    if (!value.isFinite()) return null;
+    return value.decimalPlaces() <= 2 ? value.toFixed(2) : value.toFixed();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a price read from schema.org structured data (JSON-LD, microdata,
+ * RDFa) or product meta tags.
+ *
+ * schema.org prices are plain numbers with "." as the decimal point, so a
+ * bare number ("12.499") is read without the page locale — on a pl-PL page
+ * it is 12.499, not 12499. Anything else is text the page shows inside the
+ * markup ("1 299,00 zł") and is parsed with `locale` like scraped text.
+ */
+export function parseStructuredPrice(raw: string | null | undefined, locale?: string): string | null {
+  if (!raw) return null;
+  const trimmed = raw.trim();
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return parsePrice(trimmed);
+  return parsePrice(raw, locale);
+}
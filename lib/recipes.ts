@@ -0,0 +1,77 @@
+import type { ExtractionRecipe, RecipeField } from './storage';
+
+// ---------------------------------------------------------------------------
+// Recipe fields
+// ---------------------------------------------------------------------------
+
+/**
+ * System fields a recipe can fill. Any other key is treated as a custom
+ * `column_key` and lands in `customFields`.
+ */
+export const RECIPE_SYSTEM_FIELDS: readonly string[] = [
+  'productName',
+  'manufacturer',
+  'pricePerUnit',
+  'productImageUrl',
+];
+
+/** Whether a recipe selector is an XPath expression rather than CSS. */
+export function isXPathSelector(selector: string): boolean {
+  return /^\s*[/(]/.test(selector);
+}
+
+/**
+ * Drop incomplete fields from an edited recipe and trim the rest. When a key
+ * appears twice, the first selector wins.
+ */
+export function cleanRecipeFields(fields: RecipeField[]): RecipeField[] {
+  const seen = new Set<string>();
+  const cleaned: RecipeField[] = [];
+  for (const field of fields) {
+    const key = field.key.trim();
+    const selector = field.selector.trim();
+    if (!key || !selector || seen.has(key)) continue;
+    seen.add(key);
+    const attribute = field.attribute?.trim();
+    cleaned.push(attribute ? { key, selector, attribute } : { key, selector });
+  }
+  return cleaned;
+}
+
+// ---------------------------------------------------------------------------
+// Recipe lookup
+// ---------------------------------------------------------------------------
+
+/** The origin a recipe for `url` is stored under, or `null` for non-web URLs. */
+export function getRecipeOrigin(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    return parsed.origin;
+  } catch {
+    return null;
+  }
+}
+
+/** Find the recipe saved for the origin of `url`. */
+export function findExtractionRecipe(
+  recipes: ExtractionRecipe[],
+  url: string | null | undefined,
+): ExtractionRecipe | null {
+  const origin = getRecipeOrigin(url);
+  if (!origin) return null;
+  return recipes.find((r) => r.origin === origin) ?? null;
+}
+
+/**
+ * Return `recipes` with the recipe for `recipe.origin` replaced. A recipe
+ * without fields removes the entry instead.
+ */
+export function upsertExtractionRecipe(
+  recipes: ExtractionRecipe[],
+  recipe: ExtractionRecipe,
+): ExtractionRecipe[] {
+  const others = recipes.filter((r) => r.origin !== recipe.origin);
+  return recipe.fields.length > 0 ? [...others, recipe] : others;
+}
@@ -1,4 +1,13 @@
-import type { PageData, ProductConfidence, ProductHints } from '../shared-types/estimate';
+import type {
+  ListingItem,
+  PageData,
+  ProductConfidence,
+  ProductHints,
+  ProductOffer,
+  ProductVariant,
+} from '../shared-types/estimate';
+import { detectCurrency, isCurrencyCode, parseStructuredPrice } from './price';
+import { DEFAULT_URL_STRIP_RULES, normalizeProductUrl, resolveCanonicalUrl } from './url';
 
 // ---------------------------------------------------------------------------
 // URL validation
@@ -38,6 +47,38 @@ export function stripHtml(str: string): string {
 // Hints sanitisation
 // ---------------------------------------------------------------------------
 
+/** schema.org ItemAvailability values kept in `ProductHints.availability`. */
+export const PRODUCT_AVAILABILITY_VALUES: readonly string[] = [
+  'InStock',
+  'InStoreOnly',
+  'OnlineOnly',
+  'LimitedAvailability',
+  'PreOrder',
+  'PreSale',
+  'BackOrder',
+  'MadeToOrder',
+  'OutOfStock',
+  'SoldOut',
+  'Discontinued',
+  'Reserved',
+];
+
+/**
+ * Reduce an availability value ("https://schema.org/InStock",
+ * "schema:InStock", "instock") to its ItemAvailability name. Unknown values
+ * give `undefined`.
+ */
+function sanitizeAvailability(raw: string): string | undefined {
+  const name = raw.trim().split(/[/:#]/).pop()?.toLowerCase();
+  return PRODUCT_AVAILABILITY_VALUES.find((value) => value.toLowerCase() === name);
+}
+
+/** Keep a GTIN only when it has a valid length (8, 12, 13 or 14 digits). */
+function sanitizeGtin(raw: string): string | undefined {
+  const digits = raw.replace(/[\s-]/g, '');
+  return /^(\d{8}|\d{12,14})$/.test(digits) ? digits : undefined;
+}
+
 /**
  * Validate and sanitise product hints extracted by the content script.
  *
@@ -53,6 +94,14 @@ export function sanitizeHints(raw: unknown): ProductHints {
     hints.jsonLd = d.jsonLd;
   }
 
+  if (typeof d.microdata === 'boolean') {
+    hints.microdata = d.microdata;
+  }
+
+  if (typeof d.rdfa === 'boolean') {
+    hints.rdfa = d.rdfa;
+  }
+
   if (typeof d.name === 'string') {
     hints.name = stripHtml(d.name).substring(0, 500);
   }
@@ -61,6 +110,10 @@ export function sanitizeHints(raw: unknown): ProductHints {
     hints.price = stripHtml(d.price).substring(0, 100);
   }
 
+  if (typeof d.currency === 'string' && isCurrencyCode(d.currency.trim().toUpperCase())) {
+    hints.currency = d.currency.trim().toUpperCase();
+  }
+
   if (typeof d.image === 'string' && isValidUrl(d.image)) {
     hints.image = d.image.substring(0, 2000);
   }
@@ -69,9 +122,189 @@ export function sanitizeHints(raw: unknown): ProductHints {
     hints.manufacturer = stripHtml(d.manufacturer).substring(0, 300);
   }
 
+  const gtin = typeof d.gtin === 'string' ? sanitizeGtin(d.gtin) : undefined;
+  if (gtin) {
+    hints.gtin = gtin;
+  }
+
+  if (typeof d.sku === 'string' && d.sku.trim()) {
+    hints.sku = stripHtml(d.sku).trim().substring(0, 100);
+  }
+
+  if (typeof d.mpn === 'string' && d.mpn.trim()) {
+    hints.mpn = stripHtml(d.mpn).trim().substring(0, 100);
+  }
+
+  const availability = typeof d.availability === 'string' ? sanitizeAvailability(d.availability) : undefined;
+  if (availability) {
+    hints.availability = availability;
+  }
+
+  // ISO 8601 date or date-time; only the date is kept
+  const priceValidUntil =
+    typeof d.priceValidUntil === 'string' ? /^\d{4}-\d{2}-\d{2}/.exec(d.priceValidUntil.trim())?.[0] : undefined;
+  if (priceValidUntil) {
+    hints.priceValidUntil = priceValidUntil;
+  }
+
   return hints;
 }
 
+// ---------------------------------------------------------------------------
+// Locale sanitisation
+// ---------------------------------------------------------------------------
+
+/**
+ * Accept a BCP 47-shaped language tag (e.g. "pl", "pl-PL", "de-CH") and
+ * drop anything else.
+ */
+export function sanitizeLocale(raw: unknown): string | undefined {
+  if (typeof raw !== 'string') return undefined;
+  const locale = raw.trim();
+  return /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/.test(locale) ? locale.substring(0, 35) : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Listing items sanitisation
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate and sanitise the product cards detected on a listing page.
+ *
+ * Entries without a valid HTTP(S) URL are dropped; the list is capped at 100.
+ */
+export function sanitizeListItems(raw: unknown): ListingItem[] {
+  if (!Array.isArray(raw)) return [];
+
+  const items: ListingItem[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue;
+    const d = entry as Record<string, unknown>;
+    if (typeof d.url !== 'string' || !isValidUrl(d.url)) continue;
+
+    const item: ListingItem = { url: d.url.substring(0, 2000) };
+    if (typeof d.name === 'string' && d.name) {
+      item.name = stripHtml(d.name).substring(0, 500);
+    }
+    if (typeof d.price === 'string' && d.price) {
+      item.price = stripHtml(d.price).substring(0, 100);
+    }
+    if (typeof d.image === 'string' && isValidUrl(d.image)) {
+      item.image = d.image.substring(0, 2000);
+    }
+    items.push(item);
+    if (items.length >= 100) break;
+  }
+  return items;
+}
+
+// ---------------------------------------------------------------------------
+// Variants sanitisation
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate and sanitise product variants extracted from JSON-LD.
+ *
+ * Keeps at most 50 variants and 20 attributes per variant.
+ */
+export function sanitizeVariants(raw: unknown): ProductVariant[] {
+  if (!Array.isArray(raw)) return [];
+
+  const variants: ProductVariant[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue;
+    const d = entry as Record<string, unknown>;
+    const variant: ProductVariant = {};
+
+    if (typeof d.name === 'string' && d.name) {
+      variant.name = stripHtml(d.name).substring(0, 500);
+    }
+    if (typeof d.sku === 'string' && d.sku) {
+      variant.sku = stripHtml(d.sku).substring(0, 100);
+    }
+    if (typeof d.price === 'string' && d.price) {
+      variant.price = stripHtml(d.price).substring(0, 100);
+    }
+    if (typeof d.image === 'string' && isValidUrl(d.image)) {
+      variant.image = d.image.substring(0, 2000);
+    }
+    if (typeof d.url === 'string' && isValidUrl(d.url)) {
+      variant.url = d.url.substring(0, 2000);
+    }
+    if (d.attributes && typeof d.attributes === 'object') {
+      const attributes: Record<string, string> = {};
+      for (const [key, value] of Object.entries(d.attributes as Record<string, unknown>).slice(0, 20)) {
+        if (typeof value === 'string' && value) {
+          attributes[stripHtml(key).substring(0, 100)] = stripHtml(value).substring(0, 200);
+        }
+      }
+      if (Object.keys(attributes).length > 0) variant.attributes = attributes;
+    }
+
+    if (variant.name || variant.sku || variant.attributes) {
+      variants.push(variant);
+    }
+    if (variants.length >= 50) break;
+  }
+  return variants;
+}
+
+// ---------------------------------------------------------------------------
+// Seller offers sanitisation
+// ---------------------------------------------------------------------------
+
+/** schema.org OfferItemCondition names, without the "Condition" suffix. */
+const ITEM_CONDITIONS: readonly string[] = ['New', 'Used', 'Refurbished', 'Damaged'];
+
+/** "https://schema.org/UsedCondition" -> "Used"; unknown values give `undefined`. */
+function sanitizeItemCondition(raw: string): string | undefined {
+  const name = raw.trim().split(/[/:#]/).pop()?.replace(/condition$/i, '').toLowerCase();
+  return ITEM_CONDITIONS.find((condition) => condition.toLowerCase() === name);
+}
+
+/**
+ * Validate and sanitise the seller offers extracted from JSON-LD.
+ *
+ * Offers without a seller or price are dropped; at most 50 are kept. Prices
+ * are left as found on the page (see `sanitizePageData`).
+ */
+export function sanitizeOffers(raw: unknown): ProductOffer[] {
+  if (!Array.isArray(raw)) return [];
+
+  const offers: ProductOffer[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue;
+    const d = entry as Record<string, unknown>;
+    if (typeof d.seller !== 'string' || !d.seller.trim() || typeof d.price !== 'string' || !d.price) continue;
+
+    const offer: ProductOffer = {
+      seller: stripHtml(d.seller).trim().substring(0, 200),
+      price: stripHtml(d.price).substring(0, 100),
+    };
+    if (typeof d.currency === 'string' && isCurrencyCode(d.currency.trim().toUpperCase())) {
+      offer.currency = d.currency.trim().toUpperCase();
+    }
+    if (typeof d.shippingPrice === 'string' && d.shippingPrice) {
+      offer.shippingPrice = stripHtml(d.shippingPrice).substring(0, 100);
+    }
+    const condition = typeof d.condition === 'string' ? sanitizeItemCondition(d.condition) : undefined;
+    if (condition) {
+      offer.condition = condition;
+    }
+    const availability = typeof d.availability === 'string' ? sanitizeAvailability(d.availability) : undefined;
+    if (availability) {
+      offer.availability = availability;
+    }
+    if (typeof d.url === 'string' && isValidUrl(d.url)) {
+      offer.url = d.url.substring(0, 2000);
+    }
+
+    offers.push(offer);
+    if (offers.length >= 50) break;
+  }
+  return offers;
+}
+
 // ---------------------------------------------------------------------------
 // Confidence calculation
 // ---------------------------------------------------------------------------
@@ -79,12 +312,13 @@ export function sanitizeHints(raw: unknown): ProductHints {
 /**
  * Compute product-page confidence from sanitised hints.
  *
- * - **high**: JSON-LD Product structured data was found.
+ * - **high**: schema.org Product structured data was found (JSON-LD,
+ *   microdata or RDFa).
  * - **medium**: Open Graph or meta tag product signals were found.
  * - **low**: No product-specific metadata detected.
  */
 export function calculateConfidence(hints: ProductHints): ProductConfidence {
-  if (hints.jsonLd) return 'high';
+  if (hints.jsonLd || hints.microdata || hints.rdfa) return 'high';
   if (hints.name || hints.price) return 'medium';
   return 'low';
 }
@@ -102,8 +336,13 @@ export function calculateConfidence(hints: ProductHints): ProductConfidence {
  *
  * @param raw - The untrusted value received via message passing from the
  *              content script.
+ * @param urlStripRules - Tracking-parameter rules applied to the product and
+ *              listing URLs (see lib/url.ts).
  */
-export function sanitizePageData(raw: unknown): PageData | null {
+export function sanitizePageData(
+  raw: unknown,
+  urlStripRules: readonly string[] = DEFAULT_URL_STRIP_RULES,
+): PageData | null {
   if (!raw || typeof raw !== 'object') return null;
 
   const d = raw as Record<string, unknown>;
@@ -129,11 +368,196 @@ export function sanitizePageData(raw: unknown): PageData | null {
         .slice(0, 50)
     : [];
 
+  // Canonical URL — the link to save, with tracking parameters removed
+  const canonicalUrl = normalizeProductUrl(
+    resolveCanonicalUrl(
+      url,
+      typeof d.canonicalUrl === 'string' && isValidUrl(d.canonicalUrl) ? d.canonicalUrl.substring(0, 2000) : null,
+    ),
+    urlStripRules,
+  );
+
   // Hints — validated separately
   const hints = sanitizeHints(d.hints);
 
+  // Locale — used to read page-formatted prices ("1 299,00 zł" -> "1299.00").
+  // Prices below come from structured data, where only text shown inside
+  // the markup needs it (see parseStructuredPrice).
+  const locale = sanitizeLocale(d.locale);
+  if (hints.price) {
+    hints.currency ??= detectCurrency(hints.price) ?? undefined;
+    hints.price = parseStructuredPrice(hints.price, locale) ?? undefined;
+  }
+
   // Confidence — derived from sanitised hints
   const confidence = calculateConfidence(hints);
 
-  return { url, title, images, hints, confidence };
+  // Listing items — only meaningful when at least two products were found
+  const listItems = sanitizeListItems(d.listItems).map((item) => ({
+    ...item,
+    url: normalizeProductUrl(item.url, urlStripRules),
+    price: parseStructuredPrice(item.price, locale) ?? undefined,
+  }));
+
+  // Variants — a single "variant" is just the product itself
+  const variants = sanitizeVariants(d.variants).map((variant) => ({
+    ...variant,
+    price: parseStructuredPrice(variant.price, locale) ?? undefined,
+  }));
+
+  // Seller offers — only a choice when there are at least two. They only
+  // come from JSON-LD, so their prices are read without the page locale; an
+  // offer whose price is not a number is dropped.
+  const offers = sanitizeOffers(d.offers).flatMap((offer) => {
+    const price = parseStructuredPrice(offer.price);
+    if (!price) return [];
+    return [{
+      ...offer,
+      price,
+      shippingPrice: parseStructuredPrice(offer.shippingPrice) ?? undefined,
+      url: offer.url ? normalizeProductUrl(offer.url, urlStripRules) : undefined,
+    }];
+  });
+
+  return {
+    url,
+    canonicalUrl,
+    title,
+    images,
+    hints,
+    confidence,
+    ...(locale ? { locale } : {}),
+    ...(listItems.length >= 2 ? { listItems } : {}),
+    ...(variants.length >= 2 ? { variants } : {}),
+    ...(offers.length >= 2 ? { offers } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Page content merging
+// ---------------------------------------------------------------------------
+
+/** A row of a product's specification table, e.g. `{ key: 'Width', value: '60 cm' }`. */
+export interface ProductSpec {
+  key: string;
+  value: string;
+}
+
+/** Rendered text, images and specifications sent to `POST /estimate/dynamic`. */
+export interface PageContent {
+  pageText: string;
+  images: Array<{ url: string; alt: string }>;
+  specs: ProductSpec[];
+}
+
+/** Limits of the merged page content, matching a single frame's capture. */
+const MAX_PAGE_TEXT_LENGTH = 100_000;
+const MAX_PAGE_IMAGES = 50;
+const MAX_PAGE_SPECS = 200;
+
+/**
+ * Merge the content captured from each frame of a tab into one payload.
+ *
+ * The top frame (`frameId` 0) comes first. Text from other frames is
+ * appended under a `[Frame: <url>]` line so it can be told apart, images
+ * are de-duplicated by URL and specs by key (the first frame's value wins).
+ * The merged text and image list are cut to the same 100 KB / 50 image
+ * limits as a single frame. Malformed frame results are skipped.
+ *
+ * @param frames - `executeScript` results of `extractPageContent`, one per frame.
+ */
+export function mergePageContent(frames: Array<{ frameId: number; result?: unknown }>): PageContent {
+  const ordered = [...frames].sort((a, b) => (a.frameId === 0 ? -1 : b.frameId === 0 ? 1 : a.frameId - b.frameId));
+
+  let pageText = '';
+  const images: PageContent['images'] = [];
+  const seenImages = new Set<string>();
+  const specs: ProductSpec[] = [];
+  const seenSpecKeys = new Set<string>();
+
+  for (const frame of ordered) {
+    if (!frame.result || typeof frame.result !== 'object') continue;
+    const d = frame.result as Record<string, unknown>;
+
+    const text = typeof d.pageText === 'string' ? d.pageText.trim() : '';
+    if (text && pageText.length < MAX_PAGE_TEXT_LENGTH) {
+      const frameUrl = typeof d.url === 'string' && isValidUrl(d.url) ? d.url.substring(0, 2000) : 'embedded frame';
+      const label = frame.frameId === 0 ? '' : `[Frame: ${frameUrl}]\n`;
+      pageText += `${pageText ? '\n\n' : ''}${label}${text}`;
+    }
+
+    if (Array.isArray(d.images)) {
+      for (const image of d.images) {
+        if (images.length >= MAX_PAGE_IMAGES) break;
+        if (!image || typeof image !== 'object') continue;
+        const { url, alt } = image as Record<string, unknown>;
+        if (typeof url !== 'string' || !isValidUrl(url) || seenImages.has(url)) continue;
+        seenImages.add(url);
+        images.push({ url: url.substring(0, 2000), alt: typeof alt === 'string' ? alt.substring(0, 500) : '' });
+      }
+    }
+
+    if (Array.isArray(d.specs)) {
+      for (const spec of d.specs) {
+        if (specs.length >= MAX_PAGE_SPECS) break;
+        if (!spec || typeof spec !== 'object') continue;
+        const { key, value } = spec as Record<string, unknown>;
+        if (typeof key !== 'string' || typeof value !== 'string' || !key.trim() || !value.trim()) continue;
+        const cleanKey = stripHtml(key).trim().substring(0, 200);
+        if (seenSpecKeys.has(cleanKey.toLowerCase())) continue;
+        seenSpecKeys.add(cleanKey.toLowerCase());
+        specs.push({ key: cleanKey, value: stripHtml(value).trim().substring(0, 1000) });
+      }
+    }
+  }
+
+  return { pageText: pageText.slice(0, MAX_PAGE_TEXT_LENGTH), images, specs };
+}
+
+// ---------------------------------------------------------------------------
+// Page selections
+// ---------------------------------------------------------------------------
+
+/** What the user chose next to the add-to-cart button (see `extractPageSelections`). */
+export interface PageSelections {
+  /** Quantity typed or selected on the page. */
+  quantity?: number;
+  /** Selected options, e.g. `{ key: 'Size', value: 'XL' }`. */
+  options: ProductSpec[];
+}
+
+const MAX_PAGE_SELECTIONS = 20;
+const MAX_PAGE_QUANTITY = 9999;
+
+/**
+ * Validate the selections read from the page. Options without a name or
+ * value, and repeated names, are dropped; a quantity outside 1–9999 is
+ * ignored.
+ */
+export function sanitizePageSelections(raw: unknown): PageSelections {
+  const selections: PageSelections = { options: [] };
+  if (!raw || typeof raw !== 'object') return selections;
+  const d = raw as Record<string, unknown>;
+
+  if (typeof d.quantity === 'number' && Number.isInteger(d.quantity)
+    && d.quantity >= 1 && d.quantity <= MAX_PAGE_QUANTITY) {
+    selections.quantity = d.quantity;
+  }
+
+  if (Array.isArray(d.options)) {
+    const seen = new Set<string>();
+    for (const option of d.options) {
+      if (selections.options.length >= MAX_PAGE_SELECTIONS) break;
+      if (!option || typeof option !== 'object') continue;
+      const { name, value } = option as Record<string, unknown>;
+      if (typeof name !== 'string' || typeof value !== 'string') continue;
+      const key = stripHtml(name).trim().substring(0, 100);
+      const text = stripHtml(value).trim().substring(0, 200);
+      if (!key || !text || seen.has(key.toLowerCase())) continue;
+      seen.add(key.toLowerCase());
+      selections.options.push({ key, value: text });
+    }
+  }
+
+  return selections;
 }
@@ -0,0 +1,91 @@
+// Viewport screenshots for visual extraction and price evidence.
+//
+// Used by the background when a page has too little text for the AI to work
+// with (canvas configurators, image-only pages), and to keep a cropped image
+// of the price when a product is added to an estimate. The screenshot is captured
+// with tabs.captureVisibleTab, so it needs activeTab or host access to the
+// page, and only covers the tab that is currently visible in its window.
+// Runs in the MV3 service worker, which has no DOM: scaling uses
+// OffscreenCanvas.
+
+/** Screenshot attached to `POST /estimate/dynamic` as `visualContext`. */
+export interface VisualContext {
+  mimeType: 'image/jpeg';
+  /** Base64 image data, without the `data:` prefix. */
+  data: string;
+  width: number;
+  height: number;
+}
+
+/** Part of the viewport to keep, in CSS pixels (see `locatePriceRegion`). */
+export interface CaptureRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  viewportWidth: number;
+  viewportHeight: number;
+}
+
+/** Longest side of the scaled screenshot, in pixels. */
+const MAX_SCREENSHOT_SIDE = 1280;
+const SCREENSHOT_QUALITY = 0.7;
+
+/** Encode binary data as base64 without building one huge argument list. */
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Capture the visible part of `tabId` — or only `region` of it — scaled down
+ * to at most 1280 px on its longest side and re-encoded as JPEG.
+ *
+ * Returns `null` when the tab is not the visible one in its window (e.g. a
+ * link opened in the background) or the browser refuses the capture.
+ */
+export async function captureTabScreenshot(tabId: number, region?: CaptureRegion): Promise<VisualContext | null> {
+  try {
+    const tab = await browser.tabs.get(tabId);
+    if (!tab.active) return null;
+
+    const dataUrl = await browser.tabs.captureVisibleTab(tab.windowId, { format: 'jpeg', quality: 85 });
+    const screenshot = await (await fetch(dataUrl)).blob();
+    let bitmap = await createImageBitmap(screenshot);
+    if (region && region.width > 0 && region.height > 0) {
+      // The capture is in device pixels; the region in CSS pixels.
+      const ratio = bitmap.width / region.viewportWidth;
+      const sx = Math.round(region.x * ratio);
+      const sy = Math.round(region.y * ratio);
+      const sw = Math.min(bitmap.width - sx, Math.round(region.width * ratio));
+      const sh = Math.min(bitmap.height - sy, Math.round(region.height * ratio));
+      bitmap.close();
+      bitmap = await createImageBitmap(screenshot, sx, sy, sw, sh);
+    }
+
+    const scale = Math.min(1, MAX_SCREENSHOT_SIDE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: SCREENSHOT_QUALITY });
+    return {
+      mimeType: 'image/jpeg',
+      data: toBase64(await blob.arrayBuffer()),
+      width,
+      height,
+    };
+  } catch (err) {
+    console.warn('[rerum-ext] Screenshot capture failed:', err);
+    return null;
+  }
+}
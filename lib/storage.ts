@@ -1,4 +1,6 @@
 import type { EstimateTabApi, UserInfo } from '../shared-types/estimate';
+import type { PanelActionBroadcast } from './messaging';
+import { DEFAULT_URL_STRIP_RULES } from './url';
 
 // ---------------------------------------------------------------------------
 // Session Storage — survives SW restarts but cleared on browser close
@@ -22,6 +24,8 @@ export interface CachedDocumentEntry {
 interface SessionStorageSchema {
   authState?: StoredAuthState;
   cachedDocuments?: Record<string, CachedDocumentEntry>;
+  /** Latest action sent to the side panel (context menu, shortcuts). */
+  pendingPanelAction?: PanelActionBroadcast;
 }
 
 // ---------------------------------------------------------------------------
@@ -29,12 +33,50 @@ interface SessionStorageSchema {
 // Uses browser.storage.local (polyfilled by WXT for cross-browser support)
 // ---------------------------------------------------------------------------
 
+/** A user-maintained conversion rate: 1 unit of `from` = `rate` units of `to`. */
+export interface ExchangeRate {
+  from: string;
+  to: string;
+  /** Decimal string, e.g. "4.3125". */
+  rate: string;
+}
+
+/** One field of an {@link ExtractionRecipe}. */
+export interface RecipeField {
+  /** System field (`productName`, `pricePerUnit`, …) or a custom `column_key`. */
+  key: string;
+  /** CSS selector, or an XPath expression when it starts with `/` or `(`. */
+  selector: string;
+  /** Attribute to read instead of the element's text (e.g. `src`, `content`). */
+  attribute?: string;
+}
+
+/**
+ * Selectors that fill in a product from pages of one site locally, without
+ * the AI extraction call.
+ */
+export interface ExtractionRecipe {
+  /** Page origin the recipe applies to, e.g. `https://shop.example.com`. */
+  origin: string;
+  fields: RecipeField[];
+}
+
 /** Shape of everything stored in `browser.storage.local`. */
 interface LocalStorageSchema {
   lastDocumentUuid?: string;
   lastTabId?: string;
   onboardingComplete?: boolean;
   locale?: string;
+  /** Currency of each estimate document (ISO 4217), keyed by document UUID. */
+  documentCurrencies?: Record<string, string>;
+  /** Conversion rates entered in the settings dialog. */
+  exchangeRates?: ExchangeRate[];
+  /** Tracking-parameter rules for product URLs (see lib/url.ts). */
+  urlStripRules?: string[];
+  /** Per-site extraction recipes (see lib/recipes.ts). */
+  extractionRecipes?: ExtractionRecipe[];
+  /** Whether adding a row also uploads a price evidence screenshot. */
+  savePriceEvidence?: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -153,6 +195,109 @@ export async function isDocumentCacheStale(
   return Date.now() - entry.cachedAt > maxAgeMs;
 }
 
+// ---------------------------------------------------------------------------
+// Document currency helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Read the currency the user set for a document.
+ * Returns `null` when no currency has been chosen yet.
+ */
+export async function getDocumentCurrency(uuid: string): Promise<string | null> {
+  const currencies = await getLocalValue('documentCurrencies');
+  return currencies?.[uuid] ?? null;
+}
+
+/**
+ * Set (or clear, with `null`) the currency of a document.
+ */
+export async function setDocumentCurrency(uuid: string, currency: string | null): Promise<void> {
+  const currencies = (await getLocalValue('documentCurrencies')) ?? {};
+  if (currency) {
+    currencies[uuid] = currency;
+  } else {
+    delete currencies[uuid];
+  }
+  await setLocalValue('documentCurrencies', currencies);
+}
+
+// ---------------------------------------------------------------------------
+// Exchange rate helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Read the user's exchange rate table. Returns an empty list when none is set.
+ */
+export async function getExchangeRates(): Promise<ExchangeRate[]> {
+  return (await getLocalValue('exchangeRates')) ?? [];
+}
+
+/**
+ * Replace the user's exchange rate table.
+ */
+export async function setExchangeRates(rates: ExchangeRate[]): Promise<void> {
+  await setLocalValue('exchangeRates', rates);
+}
+
+// ---------------------------------------------------------------------------
+// URL cleanup rule helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Read the tracking-parameter rules. Falls back to the built-in defaults
+ * until the user edits them.
+ */
+export async function getUrlStripRules(): Promise<readonly string[]> {
+  return (await getLocalValue('urlStripRules')) ?? DEFAULT_URL_STRIP_RULES;
+}
+
+/**
+ * Replace the tracking-parameter rules (`null` restores the defaults).
+ */
+export async function setUrlStripRules(rules: string[] | null): Promise<void> {
+  if (rules) {
+    await setLocalValue('urlStripRules', rules);
+  } else {
+    await removeLocalValue('urlStripRules');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Extraction recipe helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Read the saved extraction recipes. Returns an empty list when none is set.
+ */
+export async function getExtractionRecipes(): Promise<ExtractionRecipe[]> {
+  return (await getLocalValue('extractionRecipes')) ?? [];
+}
+
+/**
+ * Replace the saved extraction recipes.
+ */
+export async function setExtractionRecipes(recipes: ExtractionRecipe[]): Promise<void> {
+  await setLocalValue('extractionRecipes', recipes);
+}
+
+// ---------------------------------------------------------------------------
+// Price evidence helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether to save price evidence with added rows. Off until the user turns it on.
+ */
+export async function getSavePriceEvidence(): Promise<boolean> {
+  return (await getLocalValue('savePriceEvidence')) ?? false;
+}
+
+/**
+ * Remember whether to save price evidence with added rows.
+ */
+export async function setSavePriceEvidence(enabled: boolean): Promise<void> {
+  await setLocalValue('savePriceEvidence', enabled);
+}
+
 /**
  * Clear all session storage (e.g. on logout or 401).
  */
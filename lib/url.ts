@@ -0,0 +1,177 @@
+// ---------------------------------------------------------------------------
+// Tracking-parameter rules
+// ---------------------------------------------------------------------------
+
+/**
+ * Query parameters removed from product URLs by default.
+ *
+ * Each rule is a parameter name, optionally prefixed with a host pattern and
+ * a colon (`amazon.*:th` only applies to Amazon domains). `*` matches any
+ * run of characters. A rule for `ref` also drops Amazon-style `/ref=…` path
+ * segments.
+ */
+export const DEFAULT_URL_STRIP_RULES: readonly string[] = [
+  'utm_*',
+  'gclid',
+  'gclsrc',
+  'gbraid',
+  'wbraid',
+  'dclid',
+  'fbclid',
+  'msclkid',
+  'yclid',
+  'ttclid',
+  'twclid',
+  'igshid',
+  'srsltid',
+  'mc_cid',
+  'mc_eid',
+  '_ga',
+  '_gl',
+  'jsessionid',
+  'phpsessid',
+  'sessionid',
+  'sid',
+  'amazon.*:ref',
+  'amazon.*:ref_',
+  'amazon.*:th',
+  'amazon.*:psc',
+  'amazon.*:qid',
+  'amazon.*:sr',
+  'amazon.*:keywords',
+  'amazon.*:crid',
+  'amazon.*:sprefix',
+  'amazon.*:dib',
+  'amazon.*:dib_tag',
+  'amazon.*:content-id',
+  'amazon.*:pd_rd_*',
+  'amazon.*:pf_rd_*',
+  'allegro.pl:bi_*',
+  'allegro.pl:reco_id',
+  'allegro.pl:sid',
+];
+
+interface CompiledRule {
+  host: RegExp | null;
+  param: RegExp;
+}
+
+/** Turn a glob (`utm_*`) into an anchored, case-insensitive regex. */
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/** Parse rules; blank lines and `#` comments are ignored. */
+function compileRules(rules: readonly string[]): CompiledRule[] {
+  const compiled: CompiledRule[] = [];
+  for (const line of rules) {
+    const rule = line.trim();
+    if (!rule || rule.startsWith('#')) continue;
+    const colon = rule.lastIndexOf(':');
+    const host = colon > 0 ? rule.slice(0, colon).trim() : null;
+    const param = colon > 0 ? rule.slice(colon + 1).trim() : rule;
+    if (!param) continue;
+    compiled.push({
+      // A host pattern also matches its subdomains (www.amazon.de).
+      host: host ? globToRegExp(`*${host.startsWith('*') ? host.slice(1) : `.${host}`}`) : null,
+      param: globToRegExp(param),
+    });
+  }
+  return compiled;
+}
+
+// ---------------------------------------------------------------------------
+// Normalisation
+// ---------------------------------------------------------------------------
+
+/**
+ * Pick the URL to save for a product: the page's canonical URL when it is
+ * usable, otherwise the address-bar URL.
+ *
+ * A canonical URL is only used when it names the same page — same site and
+ * path — since single-page shops often leave the previous product's
+ * canonical in place and templates point it at the home page. The
+ * address-bar query is kept, as canonicals usually drop variant parameters
+ * (`?color=red`); tracking parameters are removed later by
+ * `normalizeProductUrl`.
+ */
+export function resolveCanonicalUrl(url: string, canonicalUrl: string | null | undefined): string {
+  if (!canonicalUrl) return url;
+  try {
+    const page = new URL(url);
+    const canonical = new URL(canonicalUrl);
+    if (canonical.protocol !== 'http:' && canonical.protocol !== 'https:') return url;
+
+    const pageHost = page.hostname.replace(/^www\./, '');
+    const canonicalHost = canonical.hostname.replace(/^www\./, '');
+    if (pageHost !== canonicalHost) return url;
+    if (canonical.pathname.replace(/\/+$/, '') !== page.pathname.replace(/\/+$/, '')) return url;
+
+    canonical.search = page.search;
+    return canonical.href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Remove tracking and session parameters (per `rules`) and the fragment
+ * from a product URL. The rest of the URL is kept as-is.
+ *
+ * Returns the input unchanged when it is not a valid URL.
+ */
+export function normalizeProductUrl(
+  url: string,
+  rules: readonly string[] = DEFAULT_URL_STRIP_RULES,
+): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  const hostRules = compileRules(rules).filter((rule) => !rule.host || rule.host.test(`.${parsed.hostname}`));
+  const isStripped = (name: string) => hostRules.some((rule) => rule.param.test(name));
+
+  // Filter the raw query string so the kept parameters keep their encoding.
+  if (parsed.search) {
+    const kept = parsed.search
+      .slice(1)
+      .split('&')
+      .filter((pair) => {
+        if (!pair) return false;
+        const rawName = pair.split('=')[0] ?? '';
+        let name = rawName;
+        try {
+          name = decodeURIComponent(rawName.replace(/\+/g, ' '));
+        } catch {
+          // Malformed escape: match on the raw name
+        }
+        return !isStripped(name);
+      });
+    parsed.search = kept.length > 0 ? `?${kept.join('&')}` : '';
+  }
+
+  // Amazon-style "/dp/B0…/ref=sr_1_3" path segments.
+  if (isStripped('ref')) {
+    parsed.pathname = parsed.pathname.replace(/\/ref=[^/]*/g, '');
+  }
+
+  parsed.hash = '';
+  return parsed.href;
+}
+
+/** Whether two URLs address the same document, i.e. differ at most in the `#fragment`. */
+export function isSameDocumentUrl(a: string, b: string): boolean {
+  try {
+    const first = new URL(a);
+    const second = new URL(b);
+    first.hash = '';
+    second.hash = '';
+    return first.href === second.href;
+  } catch {
+    return a === b;
+  }
+}
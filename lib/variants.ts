@@ -0,0 +1,61 @@
+import type { ColumnDefinitionApi, ExtractedProductData, ProductVariant } from '../shared-types/estimate';
+import { findCustomColumn, SKU_COLUMN_LABELS } from './columns';
+
+/**
+ * Column names that receive a variant attribute, keyed by the schema.org
+ * attribute name. Attributes not listed here (e.g. additionalProperty names
+ * such as "Finish") match a column with the same name.
+ */
+const ATTRIBUTE_COLUMN_LABELS: Record<string, string[]> = {
+  color: ['color', 'colour', 'kolor'],
+  size: ['size', 'rozmiar', 'dimensions', 'wymiary'],
+  material: ['material', 'materiał'],
+  pattern: ['pattern', 'wzór'],
+  finish: ['finish', 'wykończenie'],
+};
+
+/**
+ * Human-readable label for a variant, e.g. "Oak / 160 cm".
+ * Falls back to the variant name, then its SKU.
+ */
+export function describeVariant(variant: ProductVariant): string {
+  const attributes = Object.values(variant.attributes ?? {});
+  if (attributes.length > 0) return attributes.join(' / ');
+  return variant.name ?? variant.sku ?? '';
+}
+
+/**
+ * Apply a chosen variant to the preview data.
+ *
+ * Overwrites name, price and URL with the variant's values (when present)
+ * and writes the SKU and attributes into matching custom columns of the
+ * selected document.
+ */
+export function applyVariant<T extends ExtractedProductData>(
+  data: T,
+  variant: ProductVariant,
+  columnDefinitions: ColumnDefinitionApi[] | null | undefined,
+): T {
+  const customFields: Record<string, string> = { ...(data.customFields ?? {}) };
+
+  const skuColumn = findCustomColumn(columnDefinitions, SKU_COLUMN_LABELS);
+  if (skuColumn && variant.sku) {
+    customFields[skuColumn.column_key] = variant.sku;
+  }
+
+  for (const [name, value] of Object.entries(variant.attributes ?? {})) {
+    const labels = ATTRIBUTE_COLUMN_LABELS[name.toLowerCase()] ?? [name];
+    const column = findCustomColumn(columnDefinitions, labels);
+    if (column) {
+      customFields[column.column_key] = value;
+    }
+  }
+
+  return {
+    ...data,
+    productName: variant.name ?? data.productName,
+    pricePerUnit: variant.price ?? data.pricePerUnit,
+    productUrl: variant.url ?? data.productUrl,
+    customFields: Object.keys(customFields).length > 0 ? customFields : data.customFields,
+  };
+}
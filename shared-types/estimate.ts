@@ -218,19 +218,87 @@ export type ProductConfidence = 'high' | 'medium' | 'low';
  */
 export type ProductHints = {
   jsonLd?: boolean;
+  /** schema.org Product found as microdata (itemscope / itemprop). */
+  microdata?: boolean;
+  /** schema.org Product found as RDFa (typeof / property). */
+  rdfa?: boolean;
   name?: string;
+  /** Normalised decimal string, e.g. "1299.00" (parsed from the page format). */
   price?: string;
+  /** ISO 4217 code from priceCurrency / product:price:currency or the price symbol. */
+  currency?: string;
   image?: string;
   manufacturer?: string;
+  /** GTIN / EAN barcode, digits only. */
+  gtin?: string;
+  /** Shop's stock keeping unit. */
+  sku?: string;
+  /** Manufacturer part number. */
+  mpn?: string;
+  /** schema.org ItemAvailability name, e.g. "InStock" or "PreOrder". */
+  availability?: string;
+  /** Last day the price is valid (YYYY-MM-DD). */
+  priceValidUntil?: string;
+};
+
+/** Product card detected on a listing or search-result page. */
+export type ListingItem = {
+  url: string;
+  name?: string;
+  price?: string;
+  image?: string;
+};
+
+/**
+ * A purchasable variant of a product (schema.org ProductGroup.hasVariant, or
+ * one of several offers on a Product).
+ */
+export type ProductVariant = {
+  name?: string;
+  sku?: string;
+  price?: string;
+  image?: string;
+  url?: string;
+  /** Distinguishing attributes such as colour, size or finish. */
+  attributes?: Record<string, string>;
+};
+
+/**
+ * One seller's offer for the product on a marketplace or price comparison
+ * page (schema.org AggregateOffer.offers).
+ */
+export type ProductOffer = {
+  seller: string;
+  /** Normalised decimal string, like ProductHints.price. */
+  price: string;
+  /** ISO 4217 code. */
+  currency?: string;
+  /** Shipping cost in the offer's currency, normalised like `price`. */
+  shippingPrice?: string;
+  /** "New", "Used", "Refurbished" or "Damaged". */
+  condition?: string;
+  /** schema.org ItemAvailability name, e.g. "InStock". */
+  availability?: string;
+  url?: string;
 };
 
 /** Sanitized page data returned by handleExtractPageData in background.ts */
 export type PageData = {
   url: string;
+  /** Product URL to save: canonical when usable, tracking parameters removed. */
+  canonicalUrl?: string;
   title: string;
   images: string[];
   hints: ProductHints;
   confidence: ProductConfidence;
+  /** Page language (BCP 47), used for locale-aware price parsing. */
+  locale?: string;
+  /** Products listed on a category / search-result page (schema.org ItemList or product cards). */
+  listItems?: ListingItem[];
+  /** Variants of the product on this page (colour, size, finish…). */
+  variants?: ProductVariant[];
+  /** Offers from different sellers, when the page lists several. */
+  offers?: ProductOffer[];
 };
 
 /** AI-extracted product data returned by POST /api/estimate/dynamic */
@@ -255,3 +323,61 @@ export type UsageDto = {
   periodStart: string;
   periodEnd: string;
 };
+
+// Endpoints the extension added for creating documents and tabs, raising a
+// row's quantity and price evidence. rerum-frontend does not call them, so
+// there is nothing to sync them from: keep them in line with the backend's
+// controllers when either side changes.
+
+/** Request body of POST /api/document */
+export type CreateDocumentRequest = {
+  documentName: string;
+};
+
+/** Request body of POST /api/document/{documentUuid}/tab */
+export type CreateTabRequest = {
+  tabName: string;
+};
+
+/**
+ * Response of POST /api/document/{documentUuid}/tab: the created tab. May be
+ * empty; the extension then looks the tab up by name in the re-fetched
+ * document.
+ */
+export type CreateTabResponse = Partial<EstimateTabApi> | undefined;
+
+/**
+ * Request body of PATCH /api/document/{documentUuid}/tab/{tabId}/rows/{rowIndex}:
+ * the new quantity, and the row as the client last read it. Rows are
+ * addressed by position only, so the API answers 409 when the row at
+ * 'rowIndex' no longer equals 'expected'.
+ */
+export type UpdateRowRequest = {
+  quantity: number;
+  expected: EstimateRecordApi;
+};
+
+/** Request body of POST /api/document/{documentUuid}/evidence: a price screenshot. */
+export type PriceEvidenceRequest = {
+  productUrl: string | null;
+  /** Normalised price shown in the screenshot ("1299.00"). */
+  price: string | null;
+  currency: string | null;
+  /** ISO 8601 time of the capture. */
+  capturedAt: string;
+  image: {
+    mimeType: 'image/jpeg';
+    /** Base64 image data, without the "data:" prefix. */
+    data: string;
+    width: number;
+    height: number;
+  };
+};
+
+/**
+ * Response of POST /api/document/{documentUuid}/evidence. The evidence is
+ * removed again with DELETE /api/document/{documentUuid}/evidence/{uuid}.
+ */
+export type PriceEvidenceResponse = {
+  uuid: string;
+};
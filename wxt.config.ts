@@ -21,7 +21,7 @@ export default defineConfig({
   srcDir: '.',
 
   // Use a function to dynamically generate the manifest based on environment
-  manifest: () => {
+  manifest: ({ browser }) => {
     const isDev = process.env.NODE_ENV === 'development';
     // Derive API origin from .env's VITE_RERUM_BASE_URL so that `npm run build`
     // in a dev environment gets the correct host_permissions (localhost:8080).
@@ -34,6 +34,8 @@ export default defineConfig({
       description:
         'Add products to your Rerum estimate documents from any webpage',
       version: '1.0.0',
+      // Context menu titles are translated in public/_locales.
+      default_locale: 'en',
       permissions: [
         'activeTab',
         'tabs',
@@ -41,6 +43,10 @@ export default defineConfig({
         'sidePanel',
         'storage',
         'cookies',
+        'contextMenus',
+        'webNavigation',
+        // Chrome reads PDFs in an offscreen document (see lib/pdf.ts).
+        ...(browser === 'firefox' ? [] : ['offscreen']),
       ],
       host_permissions: [apiOrigin],
       // Broad host access is optional — requested at runtime on first Extract.
@@ -51,6 +57,22 @@ export default defineConfig({
       action: {
         default_title: 'Open Rerum Estimator',
       },
+      // Keyboard shortcuts; users can rebind them on the browser's extension
+      // shortcuts page.
+      commands: {
+        'open-side-panel': {
+          suggested_key: { default: 'Alt+Shift+R' },
+          description: 'Open the Rerum side panel',
+        },
+        'extract-product': {
+          suggested_key: { default: 'Alt+Shift+E' },
+          description: 'Extract product data from the current page',
+        },
+        'add-to-estimate': {
+          suggested_key: { default: 'Alt+Shift+A' },
+          description: 'Add the previewed product to the estimate',
+        },
+      },
       side_panel: {
         default_path: 'sidepanel/index.html',
       },